@@ -1,14 +1,31 @@
 export * from './lib/types/service-base.interface.js';
 export * from './lib/service-directus.js';
+export * from './lib/service-memory.js';
+export * from './lib/service-sql.js';
+export * from './lib/service-mysql.js';
+export * from './lib/service-sqlite.js';
 export * from './lib/broker.service.js';
 export * from './lib/types/types.js';
 export * from './lib/types/query.type.js';
+export * from './lib/types/query-compiler.js';
+export * from './lib/types/query-cursor.js';
 export * from './lib/cache-base.service.js';
+export * from './lib/cache-bus.js';
+export * from './lib/cache-storage.js';
 export * from './lib/service-base.js';
 export * from './lib/types/db-entity-base.js';
+export * from './lib/utils/local-query.js';
+export * from './lib/sql/sql.types.js';
+export * from './lib/sql/sql-compiler.js';
+export * from './lib/sql/dialect-mysql.js';
+export * from './lib/sql/dialect-sqlite.js';
+export * from './lib/sql/dialect-postgres.js';
 
 export * from './lib/files/db-file-service-directus.js';
 export * from './lib/files/db-files-service.interface.js';
 export * from './lib/files/file.types.js';
 export * from './lib/types/db.error.js';
 export type { DB_EntityService_Options } from './lib/types/service-options.interface.js';
+export type { I_DB_CacheOptions } from './lib/types/cache-options.interface.js';
+export type { I_DB_CacheStats, I_DB_CacheLookupStats } from './lib/types/cache-stats.interface.js';
+export type { DB_Middleware, DB_Operation, I_DB_OperationContext } from './lib/types/middleware.interface.js';
@@ -1,6 +1,13 @@
 import {DB_Credentials, DB_ServerInfo, DB_ServerNamesStd, IsLoginStatus, ServersConfigHash} from './types/types.js';
 import {DB_EntityService_Base} from './service-base.js';
 import DB_EntityServiceBase_Directus from './service-directus.js';
+import DB_EntityServiceBase_Memory from './service-memory.js';
+import DB_EntityServiceBase_MySQL from './service-mysql.js';
+import DB_EntityServiceBase_SQLite from './service-sqlite.js';
+import { DB_CacheBusInProcess, I_DB_CacheChange, I_DB_CacheMessage, I_DB_CacheTransport } from './cache-bus.js';
+import { I_DB_CacheStats } from './types/cache-stats.interface.js';
+import { CacheBaseService } from './cache-base.service.js';
+import { DB_Middleware } from './types/middleware.interface.js';
 
 /**
  * Service to manage multiple directus servers and login to them
@@ -31,6 +38,29 @@ export class DB_BrokerService {
    */
   private serviceByEntity: Partial<Record<string, DB_EntityService_Base<any>>> = {};
 
+  /**
+   * services with shared cache by "server:entity", and by their member ID
+   * (filled up by `cacheShare()`, when cache is enabled with `shared` option)
+   */
+  private cacheRegistry = new Map<string, Map<string, DB_EntityService_Base<any>>>();
+  /** ID of this broker in the shared cache messages (to skip own messages that come back from the transport) */
+  private readonly cacheBusId = Math.random().toString(36).substring(2, 10);
+  private cacheMembersCount = 0;
+  private cacheTransport:I_DB_CacheTransport = new DB_CacheBusInProcess();
+  private cacheTransportUnsubscribe = this.cacheTransport.subscribe(message => this.cacheDeliver(message, true));
+  /**
+   * services with enabled cache by "server:entity" (for stats of all services),
+   * weak refs, so the broker doesn't keep services that are not used anymore
+   */
+  private cachedServices = new Set<{key:string, ref:WeakRef<DB_EntityService_Base<any>>}>();
+  /** entities to preload to cache after login by server name (@see cachePreloadOnLogin) */
+  private cachePreloadEntities = new Map<string, string[]>();
+  /** last started preload of the server (@see waitForPreload) */
+  private cachePreloads = new Map<string, Promise<Record<string, number|string>>>();
+
+  /** global middleware of operations of all entity services (@see use) */
+  private globalMiddleware:DB_Middleware[] = [];
+
   /**
    * servers config
    * @private
@@ -43,6 +73,9 @@ export class DB_BrokerService {
   constructor(config?: ServersConfigHash, serverSuffix?: string) {
     DB_BrokerService._i = this;
     if(!config) return; else this.config = config;
+    for(const [serverName, entities] of Object.entries(config.preloadByServer ?? {})) {
+      if(entities?.length) this.cachePreloadEntities.set(serverName, entities);
+    }
     //cycle each server to prepare server info object
     for (const serverName of Object.keys(this.config.credentials)) {
       const credentials = this.config.credentials[serverName];
@@ -107,6 +140,15 @@ export class DB_BrokerService {
       if(changesIn.type === 'directus')
         srvRef.loginFunction =
           (DB_EntityServiceBase_Directus.loginToServer as unknown as (srv?: DB_ServerInfo<object, object>) => Promise<IsLoginStatus>);
+      if(changesIn.type === 'memory')
+        srvRef.loginFunction =
+          (DB_EntityServiceBase_Memory.loginToServer as unknown as (srv?: DB_ServerInfo<object, object>) => Promise<IsLoginStatus>);
+      if(changesIn.type === 'mysql')
+        srvRef.loginFunction =
+          (DB_EntityServiceBase_MySQL.loginToServer as unknown as (srv?: DB_ServerInfo<object, object>) => Promise<IsLoginStatus>);
+      if(changesIn.type === 'sqlite')
+        srvRef.loginFunction =
+          (DB_EntityServiceBase_SQLite.loginToServer as unknown as (srv?: DB_ServerInfo<object, object>) => Promise<IsLoginStatus>);
     }
 
     //here will be only the changes that are actually different
@@ -115,6 +157,11 @@ export class DB_BrokerService {
     //update values without redefining the object itself
     Object.assign(srvRef, realChanges);
 
+    //load entities to cache after login (when the login is finished)
+    if(realChanges.isLoggedIn === IsLoginStatus.yes && this.cachePreloadEntities.has(serverName)) {
+      this.cachePreloads.set(serverName, Promise.resolve().then(() => this.cachePreloadServer(serverName)));
+    }
+
     //notify subscribers that changes were made
     if (notifySubscribers && realChanges && Object.keys(realChanges).length>0) {
       this.notifyServerUpdates(serverName, realChanges, srvRef);
@@ -249,6 +296,157 @@ export class DB_BrokerService {
     return this.serviceByEntity[entityName] as DB_EntityService_Base<T>;
   }
 
+  //////////////////////////////////////////////////////////////////////////////
+  // SHARED CACHE
+
+  /**
+   * add the service to the shared cache registry of its entity,
+   * changes published by other services of the entity are applied to its cache
+   * @return member ID of the service (used as origin of its messages)
+   */
+  cacheShare(serverName:string, entityName:string, service:DB_EntityService_Base<any>):string {
+    const key = `${serverName}:${entityName}`;
+    let members = this.cacheRegistry.get(key);
+    if(!members) this.cacheRegistry.set(key, members = new Map());
+    const memberId = `${this.cacheBusId}#${++this.cacheMembersCount}`;
+    members.set(memberId, service);
+    return memberId;
+  }
+
+  /** remove the service from the shared cache registry (its cache is not changed by others anymore) */
+  cacheUnshare(memberId:string) {
+    for(const [key, members] of this.cacheRegistry) {
+      if(!members.delete(memberId)) continue;
+      if(!members.size) this.cacheRegistry.delete(key);
+      return;
+    }
+  }
+
+  /** services that share cache of the entity */
+  cacheShared(serverName:string, entityName:string):DB_EntityService_Base<any>[] {
+    return Array.from(this.cacheRegistry.get(`${serverName}:${entityName}`)?.values() ?? []);
+  }
+
+  /**
+   * send the change of entity items to other services of the entity:
+   * to the ones of this broker directly and to other brokers by the transport
+   */
+  cachePublish(message:I_DB_CacheMessage) {
+    this.cacheDeliver(message);
+    this.cacheTransport.publish(message);
+  }
+
+  /**
+   * set the transport of shared cache messages (to invalidate caches in other processes),
+   * by default messages are delivered only inside this broker
+   * @see I_DB_CacheTransport
+   */
+  cacheUseTransport(transport:I_DB_CacheTransport) {
+    this.cacheTransportUnsubscribe();
+    this.cacheTransport = transport;
+    this.cacheTransportUnsubscribe = transport.subscribe(message => this.cacheDeliver(message, true));
+  }
+
+  private cacheDeliver(message:I_DB_CacheMessage, fromTransport = false) {
+    //own messages were already delivered when published
+    if(fromTransport && message.origin.startsWith(`${this.cacheBusId}#`)) return;
+    const members = this.cacheRegistry.get(`${message.server}:${message.entity}`);
+    if(!members) return;
+    const change:I_DB_CacheChange<any> = {filter: message.filter, ids: message.ids, items: message.items};
+    members.forEach((service, memberId) => { if(memberId !== message.origin) service.cacheApplyChange(change); });
+  }
+
+  /** remember the service with enabled cache to include it in `cacheStats()` (called by `cacheEnable()`) */
+  cacheRegister(serverName:string, entityName:string, service:DB_EntityService_Base<any>) {
+    for(const {ref} of this.cachedServices) if(ref.deref() === service) return;
+    this.cachedServices.add({key: `${serverName}:${entityName}`, ref: new WeakRef(service)});
+  }
+
+  /**
+   * cache stats of all services with enabled cache summed by "server:entity"
+   * (`maxItems` is summed too, `services` is the number of services of the entity)
+   * @see CacheBaseService.cacheStats
+   */
+  cacheStats():Record<string, I_DB_CacheStats & {services:number}> {
+    const res:Record<string, I_DB_CacheStats & {services:number}> = {};
+    for(const entry of this.cachedServices) {
+      const service = entry.ref.deref();
+      if(!service) { this.cachedServices.delete(entry); continue; }
+      const stats = service.cacheStats();
+      const sum = res[entry.key];
+      if(!sum) { res[entry.key] = {...stats, services: 1}; continue; }
+      for(const path of Object.keys(stats.lookups) as (keyof I_DB_CacheStats['lookups'])[]) {
+        sum.lookups[path].hits += stats.lookups[path].hits;
+        sum.lookups[path].nullHits += stats.lookups[path].nullHits;
+        sum.lookups[path].misses += stats.lookups[path].misses;
+      }
+      for(const field of ['evictions', 'expirations', 'items', 'nulls', 'queries', 'maxItems', 'memory'] as const) sum[field] += stats[field];
+      sum.hitRate = CacheBaseService.cacheHitRate(sum.lookups);
+      sum.services++;
+    }
+    return res;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // CACHE PRELOAD
+
+  /**
+   * load all items of the entities to cache after each login to the server (@see DB_EntityService_Base.cachePreload),
+   * services of the entities must be created with enabled cache before login (the last created service of each entity is used).
+   * If the server is already logged in, entities are loaded now
+   * @example
+   * new CountryService(dbBroker); //enables cache in constructor
+   * dbBroker.cachePreloadOnLogin('core', ['country', 'currency']);
+   * await dbBroker.waitForPreload('core');
+   */
+  cachePreloadOnLogin(serverName:DB_ServerNamesStd|string, entityNames:string[]) {
+    this.cachePreloadEntities.set(serverName, entityNames);
+    if(this.getServer(serverName)?.isLoggedIn === IsLoginStatus.yes) {
+      this.cachePreloads.set(serverName, this.cachePreloadServer(serverName));
+    }
+  }
+
+  /**
+   * load entities of the server to cache (set by `cachePreloadOnLogin()` or config `preloadByServer`)
+   * @return number of loaded items or error string by entity name
+   */
+  async cachePreloadServer(serverName:DB_ServerNamesStd|string):Promise<Record<string, number|string>> {
+    const entities = this.cachePreloadEntities.get(serverName) ?? [];
+    const loaded = await Promise.all(entities.map(async entityName => {
+      const service = this.getServiceByEntity(entityName);
+      const count = service ? await service.cachePreload().catch((e:unknown) => String(e)) : 'no service of the entity';
+      if(typeof count === 'string') console.warn(`DB Broker: preload of ${serverName}:${entityName} failed:`, count);
+      return [entityName, count] as const;
+    }));
+    return Object.fromEntries(loaded);
+  }
+
+  /**
+   * wait for the preload of entities started by the last login to the server
+   * @return number of loaded items or error string by entity name (empty if there was no preload)
+   */
+  async waitForPreload(serverName:DB_ServerNamesStd|string):Promise<Record<string, number|string>> {
+    return await (this.cachePreloads.get(serverName) ?? {});
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // MIDDLEWARE
+
+  /**
+   * add middleware to operations of all entity services of the broker (existing and new ones),
+   * it runs before middleware of the services in order of adding
+   * @see DB_Middleware, DB_EntityService_Base.use
+   */
+  use(...middleware:DB_Middleware[]):this {
+    this.globalMiddleware = [...this.globalMiddleware, ...middleware];
+    return this;
+  }
+
+  /** global middleware of the services */
+  get middleware():readonly DB_Middleware[] {
+    return this.globalMiddleware;
+  }
+
   //////////////////////////////////////////////////////////////////////////////
   // UPDATES SUBSCRIBER
 
@@ -0,0 +1,82 @@
+import { performance } from 'node:perf_hooks';
+import { DB_BrokerService } from './broker.service.js';
+import { CacheBaseService } from './cache-base.service.js';
+import { ITestEntity, TestMemoryEntityService } from './types/TestEntity.service.js';
+import { DBtype } from './types/types.js';
+import { dbqb } from './types/query.type.js';
+
+interface IBenchItem { id:number, name:string, tags:string[], meta:Record<string, number>, nested:{a:{b:{c:string}}} }
+
+class BenchCache extends CacheBaseService<IBenchItem> {}
+
+describe('CacheBaseService immutable reads (@toopro/db)', () => {
+
+  let dbBroker:DB_BrokerService;
+  let service:TestMemoryEntityService;
+
+  beforeEach(async () => {
+    dbBroker = new DB_BrokerService();
+    dbBroker.upsertServer('local', {type: DBtype.memory, entities: ['test']});
+    service = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    await service.add([
+      {status: 'active', value: 'Alpha one', decimal: 10, nested: {field1: 'a'}},
+      {status: 'draft',  value: 'beta two',  decimal: 20},
+    ], false);
+  });
+
+  it('should return clones of cached items', async () => {
+    service.cacheEnable({indexBy: ['value'], immutable: 'clone'});
+    const loaded = await service.getById(1) as ITestEntity;
+    loaded.value = 'changed by UI';
+    (loaded.nested as {field1:string}).field1 = 'x';
+    expect(service.cacheGet(1)).toMatchObject({value: 'Alpha one', nested: {field1: 'a'}});
+
+    const fromCache = await service.getById(1) as ITestEntity;
+    expect(fromCache).not.toBe(service.cacheGet(1));
+    fromCache.decimal = 0;
+    service.cacheGetByField('value', 'Alpha one')!.status = 'x';
+    expect(service.cacheGet(1)).toMatchObject({decimal: 10, status: 'active'});
+  });
+
+  it('should save clones of partial items merged with cached ones', async () => {
+    service.cacheEnable({immutable: 'clone'});
+    await service.query(dbqb<ITestEntity>().equal('id', 1).fields(['id', 'value']));
+    const res = await service.query(dbqb<ITestEntity>().equal('id', 1).fields(['id', 'nested'])); //merged with cached fields
+    (res[0].nested as {field1:string}).field1 = 'x';
+    expect(service.cacheGet(1)).toMatchObject({value: 'Alpha one', nested: {field1: 'a'}});
+  });
+
+  it('should return deep-frozen cached items', async () => {
+    service.cacheEnable({immutable: 'freeze'});
+    const loaded = await service.getById(1) as ITestEntity;
+    expect(() => { loaded.value = 'changed by UI'; }).toThrow(TypeError);
+    expect(Object.isFrozen(loaded.nested)).toBe(true);
+    expect(await service.getById(1)).toBe(loaded); //no copies
+
+    service.cacheSet({id: 5, value: 'set directly', nested: {field1: 'b'}} as ITestEntity);
+    expect(Object.isFrozen(service.cacheGet(5)?.nested)).toBe(true);
+    expect(CacheBaseService.cacheDeepFreeze({bytes: new Uint8Array(2)}).bytes[0]).toBe(0); //typed arrays are skipped
+  });
+
+  it('should measure the cost of immutable reads', () => {
+    const reads = 20_000;
+    const items:IBenchItem[] = Array.from({length: 100}, (_, id) => ({
+      id, name: `item ${id}`, tags: ['a', 'b', 'c'],
+      meta: Object.fromEntries(Array.from({length: 20}, (_, i) => [`field${i}`, i])),
+      nested: {a: {b: {c: 'deep'}}},
+    }));
+    const results:Record<string, number> = {};
+    for(const immutable of [false, 'freeze', 'clone'] as const) {
+      const cache = new BenchCache();
+      cache.cacheEnable({immutable, maxItems: 1000});
+      items.forEach(item => cache.cacheSet(structuredClone(item)));
+      let found = 0;
+      const start = performance.now();
+      for(let i = 0; i < reads; i++) if(cache.cacheGet(i % 100)?.nested.a.b.c === 'deep') found++;
+      results[immutable || 'live'] = performance.now() - start;
+      expect(found).toBe(reads);
+    }
+    console.info(`cacheGet() x${reads} of items with nested objects (ms):`, results);
+  });
+
+});
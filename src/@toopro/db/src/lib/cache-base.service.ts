@@ -1,4 +1,10 @@
 import { DB_EntityID } from './types/types.js';
+import { I_DB_CacheOptions } from './types/cache-options.interface.js';
+import { DB_Filter } from './types/query.type.js';
+import { DB_LocalQuery } from './utils/local-query.js';
+import { I_DB_CacheChange } from './cache-bus.js';
+import { DB_CacheSnapshotEntry, I_DB_CachePersistOptions, I_DB_CacheSnapshot } from './cache-storage.js';
+import { I_DB_CacheLookupStats, I_DB_CacheStats } from './types/cache-stats.interface.js';
 
 /**
  * This is a base class for all services that are using cache.
@@ -43,7 +49,7 @@ export abstract class CacheBaseService<T> {
    *
    * @example cacheIndex = new Map({
    *   'did': { 8: 1, 9: 2, 10: 3, ... },
-   *   'module+name': { 'module1-name1': 1, 'module2-name2': 2, ... },
+   *   'module+name': { '["module1","name1"]': 1, '["module2","name2"]': 2, ... }, //see cacheComputedKey()
    * });
    *
    * @protected
@@ -65,10 +71,77 @@ export abstract class CacheBaseService<T> {
   }
 
   /**
-   * all items that are stored in cache indexed by cacheIDField
+   * component fields of computed indexes by index name,
+   * @example { 'module+name': ['module', 'name'] }
+   */
+  private cacheComputedIndexes:Map<string, Extract<keyof T, string>[]> = new Map();
+
+  /**
+   * non-unique indexes: IDs of all cached items by the field value.
+   * `complete` is the time when we got all items with the value from the server
+   * (e.g. by getByField without limit), so the value could be answered from cache
+   * till queryTTL ends, items are removed from cache or entities are changed.
+   *
+   * @example cacheMultiIndex = new Map({
+   *   'status': Map({ 'active': {ids: Set([1, 2]), complete: 1700000000000}, 'draft': {ids: Set([3]), complete: 0} }),
+   * });
+   */
+  private cacheMultiIndex:Map<
+    Extract<keyof T, string>,
+    Map<string, {ids:Set<DB_EntityID>, complete:number}>
+  > = new Map();
+
+  /**
+   * reverse index: field values of the item ID in cacheIndex (and cacheMultiIndex if `multi`),
+   * to remove the item from indexes without scanning them
+   */
+  private cacheIndexedValues:Map<DB_EntityID, [Extract<keyof T, string>, string|number, boolean?][]> = new Map();
+
+  /**
+   * all items that are stored in cache indexed by cacheIDField,
+   * in LRU order: recently used items are moved to the end, so the first ones are evicted
    */
   private cachedItems:Map<DB_EntityID, T|null> = new Map();
 
+  /**
+   * fields that cached items were loaded with (`*`, names and dotted paths like `author.name`),
+   * items without record here are full (loaded with `*`)
+   */
+  private cachedFields:Map<DB_EntityID, string[]> = new Map();
+
+  /**
+   * when items (and nulls) were saved in cache (ms timestamps), to check their TTL
+   */
+  private cachedTimes:Map<DB_EntityID, number> = new Map();
+
+  /**
+   * how long items are valid in cache (ms), 0 - items do not expire
+   */
+  protected cacheTTL = 0;
+
+  /**
+   * how long cached nulls are valid in cache (ms), 0 - they do not expire
+   */
+  protected cacheNullTTL = 0;
+
+  /**
+   * how long after TTL expired items are still returned while they are reloaded (ms),
+   * 0 - stale-while-revalidate is off, expired items are loaded as usual
+   */
+  protected cacheStaleTime = 0;
+
+  /**
+   * ordered IDs of query results by query key (see cacheQueryKey()),
+   * items themselves are in cachedItems, so a list is valid only while all its items are there
+   */
+  private cachedQueries:Map<string, {ids:DB_EntityID[], expires:number}> = new Map();
+
+  /**
+   * how long query results are valid in cache (ms),
+   * 0 - results of list queries are not cached (only items by ID and indexes)
+   */
+  protected cacheQueryTTL = 1000*60;
+
   /**
    * how many items allowed to store in cache?
    * if we have more items, then we will delete some items from cache
@@ -76,59 +149,140 @@ export abstract class CacheBaseService<T> {
   protected cacheMaxItems = 200;
 
   /**
-   * how often we need to recheck cache for max items limit
+   * how often we need to recheck cache for max items limit (and expired items),
+   * the timer is started only when `recheckTimeout` option is set
    */
   private cacheRecheckTimeout = 1000*60*5; //5 minutes
 
+  /** timer of the background cache maintenance */
+  private cacheRecheckTimer?:ReturnType<typeof setInterval>;
+
   //this is a special cache for getById method for the last loaded item (to avoid double requests in chains)
   private cacheLastLoadedItem:T|null = null;
   private cacheLastLoadedItemID:DB_EntityID|null = null;
 
+  /**
+   * all items of the collection are in cache (@see cachePreload), so items that are not in cache don't exist,
+   * reset when items are evicted, expired or removed by filter
+   */
+  protected cacheComplete = false;
+
+  /** how cached items are protected from changes (`immutable` option) */
+  protected cacheImmutable:false|'clone'|'freeze' = false;
+
+  /** counters of cache lookups, evictions and expirations (@see cacheStats) */
+  private cacheCounters = CacheBaseService.cacheCountersNew();
+
+  /** persistent storage of the cache (`persist` option) */
+  private cachePersist?:I_DB_CachePersistOptions;
+  private cacheSaveTimer?:ReturnType<typeof setTimeout>;
+  /**
+   * restoring of the cache from persistent storage started by `cacheEnable()` with `persist` option
+   * (resolves with the number of restored items), await it to use restored items in the first queries
+   */
+  public cacheRestored?:Promise<number>;
+
   //////////////////////////////////////////////////////////////////////////////
   //////////////////////////////////////////////////////////////////////////////
 
   /**
    * use to manually config cache, mostly for indexBy field
    * @param idPropName
-   * @param indexBy create additional index in cache to fast find items by field value
+   * @param indexBy create additional index in cache to fast find items by field value,
+   *    or all options of the cache (TTL of items, stale-while-revalidate, etc.)
    *    ВНИМАНИЕ! Индекс хранит только один элемент по полю, если будет несколько - они перезаписываются
+   *    (use `multiIndexBy` option for fields with the same value in many items)
    * @param maxItems how many items allowed to store in cache? other will be auto-removed
+   * @param queryTTL how long results of list queries are valid in cache (ms), 0 to not cache them
+   *    (they are also forgotten when entities are changed through this service)
    * @param computedIndexBy -  когда нужно индексировать по вычисляемому полю, например, module+name,
    *    то есть в пределах каждого модуля есть уникальные имена, но в разных модулях могут быть одинаковые имена
-   *    смотрит когда фильтруется по двум полям есть ли они в списке cacheIndexedBy TODO: нужно будет потом реализовать
+   *    смотрит когда фильтруется по двум полям есть ли они в списке cacheIndexedBy
+   *    (query with `_eq` filters of all the fields is answered from this index)
    * @example
    *  cacheEnable(['did']); //to then fast find place by did
    *  const place = await this.placeService.getByOneField('did', 8);
+   *  cacheEnable({indexBy: ['did'], ttl: 60_000, nullTTL: 5_000, staleWhileRevalidate: true});
    */
-  public cacheEnable(indexBy:Extract<keyof T, string>[]=[], idPropName='id', maxItems = 100, computedIndexBy?:string[]) {
+  public cacheEnable(indexBy:Extract<keyof T, string>[]|I_DB_CacheOptions<T>=[], idPropName='id', maxItems = 100, computedIndexBy?:string[], queryTTL = 1000*60) {
+    const opts:I_DB_CacheOptions<T> = Array.isArray(indexBy) ? {indexBy, idField: idPropName, maxItems, computedIndexBy, queryTTL} : indexBy;
     this.cache = true;
-    this.cacheIDField = idPropName as Extract<keyof T, string>; //be sure to have it in T entity!
-    this.cacheMaxItems = maxItems;
-    indexBy.forEach(indexName => this.cacheIndex.set(indexName, {}));
+    this.cacheIDField = (opts.idField ?? 'id') as Extract<keyof T, string>; //be sure to have it in T entity!
+    this.cacheMaxItems = opts.maxItems ?? 100;
+    this.cacheQueryTTL = opts.queryTTL ?? 1000*60;
+    this.cacheTTL = opts.ttl ?? 0;
+    this.cacheNullTTL = opts.nullTTL ?? this.cacheTTL;
+    this.cacheStaleTime = opts.staleWhileRevalidate === true ? Infinity : opts.staleWhileRevalidate || 0;
+    this.cacheImmutable = opts.immutable ?? false;
+    (opts.indexBy ?? []).forEach(indexName => this.cacheIndex.set(indexName, {}));
+    (opts.multiIndexBy ?? []).forEach(indexName => this.cacheMultiIndex.set(indexName, new Map()));
+    (opts.computedIndexBy ?? []).forEach(indexName => {
+      this.cacheComputedIndexes.set(indexName, indexName.split('+') as Extract<keyof T, string>[]);
+      this.cacheIndex.set(indexName as Extract<keyof T, string>, {});
+    });
+    if(opts.recheckTimeout) this.cacheMaintenanceStart(opts.recheckTimeout);
+    this.cachePersist = opts.persist;
+    if(opts.persist) this.cacheRestored = this.cacheRestore();
+  }
+
+  /**
+   * start the background timer that removes expired items and keeps max items limit
+   * (restarts it if it's already running), stop it with cacheMaintenanceStop() on shutdown
+   * @param timeout how often to check the cache (ms)
+   */
+  public cacheMaintenanceStart(timeout = this.cacheRecheckTimeout) {
+    this.cacheMaintenanceStop();
+    this.cacheRecheckTimeout = timeout;
+    this.cacheRecheckTimer = setInterval(() => this.cacheMaintenance(true), timeout);
+    //don't keep node process alive only for the cache
+    (this.cacheRecheckTimer as {unref?:() => void}).unref?.();
+  }
+
+  /**
+   * stop the background cache maintenance timer (for clean shutdown)
+   */
+  public cacheMaintenanceStop() {
+    if(this.cacheRecheckTimer) clearInterval(this.cacheRecheckTimer);
+    this.cacheRecheckTimer = undefined;
   }
 
   /**
    * save item in cache
    * @param item saved current value, so if you change it somewhere else
-   *     if will be changed here too. be careful!
+   *     if will be changed here too. be careful! (or use `immutable` option)
    * @param addToIndexBy if we need to add this item to index by some field
    *     if we don't have an index for this field yet - it will be created!
    *     WARNING!! from that moment that field will index all new items too
+   * @param fields fields that the item was loaded with (query.fields), undefined - full item (`*`).
+   *     Partial item is merged with the cached one (a new object is saved then)
    */
-  public cacheSet(item:T, addToIndexBy?:Extract<keyof T, string>) {
+  public cacheSet(item:T, addToIndexBy?:Extract<keyof T, string>, fields?:string[]) {
     if(!this.cache) return;
-    if(this.cachedItems.size>this.cacheMaxItems) this.cacheMaintenance(); //try clear cache if we have too many items
     const saveItemId = item[this.cacheIDField] as DB_EntityID;
+    if(saveItemId === undefined || saveItemId === null) return; //loaded without ID field, can't find it later
+
+    //partial item: add loaded fields to the cached ones (values of other fields are kept)
+    const old = this.cachedItems.get(saveItemId);
+    let loaded = fields?.length ? fields : undefined;
+    if(loaded && old && !loaded.includes('*')) {
+      const oldFields = this.cachedFields.get(saveItemId) ?? ['*'];
+      //nested fields of overwritten values are not loaded anymore (e.g. `author.name` when author is ID now)
+      loaded = [...oldFields.filter(field => !(field.split('.')[0] in (item as object))), ...loaded];
+      item = {...old, ...item};
+    }
 
     //save last saved item to then fast return it by getById
     this.cacheLastLoadedItemID = saveItemId;
     this.cacheLastLoadedItem = item;
 
     //if we have this item in cache - remove it from all indexes because values could be changed and we need to reindex it
-    if(this.cachedItems.has(saveItemId)) this.cacheDelete(saveItemId);
+    if(this.cachedItems.has(saveItemId)) this.cacheDelete(saveItemId, true);
 
     //save item in cache
     this.cachedItems.set(saveItemId, item);
+    this.cachedTimes.set(saveItemId, Date.now());
+    if(loaded && !(loaded.length === 1 && loaded[0] === '*')) this.cachedFields.set(saveItemId, loaded);
+    if(this.cachedItems.size>this.cacheMaxItems) this.cacheMaintenance(); //try clear cache if we have too many items
 
     //add item to existing indexesBy
     if(this.cacheIndex.size>0) for(const indexByField of this.cacheIndex.keys()) {
@@ -136,7 +290,9 @@ export abstract class CacheBaseService<T> {
       if(indexByField===addToIndexBy) addToIndexBy = undefined;
 
       //skip if there is no such field in the item because we can't use value to index it
-      const value = item[indexByField] as string|number|undefined|null;
+      const fields = this.cacheComputedIndexes.get(indexByField);
+      const value = fields ? CacheBaseService.cacheComputedKey(fields.map(field => item[field]))
+        : item[indexByField] as string|number|undefined|null;
       if(value===undefined || value===null) continue;
 
       //save item id in index by field value
@@ -149,6 +305,16 @@ export abstract class CacheBaseService<T> {
       item[addToIndexBy] as string|number,
       saveItemId
     );
+
+    //add item to non-unique indexes (complete values stay complete, the item is one of them now)
+    this.cacheMultiIndex.forEach((index, fieldName) => {
+      const value = item[fieldName] as string|number|undefined|null;
+      if(value===undefined || value===null) return;
+      const entry = index.get(String(value));
+      if(entry) entry.ids.add(saveItemId); else index.set(String(value), {ids: new Set([saveItemId]), complete: 0});
+      this.cacheSaveIndexedValue(saveItemId, fieldName, value, true);
+    });
+    this.cacheSaveLater();
   }
 
   /**
@@ -168,9 +334,14 @@ export abstract class CacheBaseService<T> {
    */
   public cacheSetNullItem(id:DB_EntityID, fieldName?:Extract<keyof T, string>, value?:string|number) {
     if(!this.cache) return;
+    this.cachedItems.delete(id);        //to move it to the end of LRU order
+    this.cachedFields.delete(id);
     this.cachedItems.set(id, null);     //set the main cache hash with NULL value with this id
+    this.cachedTimes.set(id, Date.now());
+    if(this.cachedItems.size>this.cacheMaxItems) this.cacheMaintenance();
     //if we index by given field - save NULL to the given [field][value] index
     if(fieldName && value !== undefined && value !== null && this.cacheIndex.has(fieldName) ) this.cacheSaveIndexByField(fieldName, value, id);
+    this.cacheSaveLater();
   }
 
   /**
@@ -189,6 +360,13 @@ export abstract class CacheBaseService<T> {
     if(value===null || value===undefined) return;
     if(!this.cacheIndex.has(fieldName)) this.cacheIndex.set(fieldName, {});
     this.cacheIndex.get(fieldName)![value] = id;
+    this.cacheSaveIndexedValue(id, fieldName, value);
+  }
+
+  /** remember the indexed value of the item to remove its ID from index without scanning it */
+  private cacheSaveIndexedValue(id:DB_EntityID, fieldName:Extract<keyof T, string>, value:string|number, multi?:boolean) {
+    const values = this.cacheIndexedValues.get(id);
+    if(values) values.push([fieldName, value, multi]); else this.cacheIndexedValues.set(id, [[fieldName, value, multi]]);
   }
 
   /**
@@ -199,22 +377,235 @@ export abstract class CacheBaseService<T> {
    *    or undefined if we don't have this item in cache
    */
   public cacheGet(id:DB_EntityID):T|null|undefined {
+    return this.cacheCount('cacheGet', this.cacheOut(this.cacheGetItem(id)));
+  }
+
+  /**
+   * same as cacheGet(), but the lookup is not counted in stats
+   * (for lookups inside other lookups, e.g. items of cached query results)
+   */
+  protected cacheGetItem(id:DB_EntityID):T|null|undefined {
     if(!this.cache) return undefined;
+    if(this.cacheItemState(id) === 'expired') {
+      this.cacheDelete(id);
+      this.cacheCounters.expirations++;
+      this.cacheComplete = false;
+      return undefined;
+    }
+    this.cacheTouch(id);
     //console.log('cacheGet', id, this.cachedItems, `last loaded item: ${this.cacheLastLoadedItemID}`, this.cacheLastLoadedItem);
     if(id === this.cacheLastLoadedItemID) return this.cacheLastLoadedItem;
-    return this.cachedItems.get(id);
+    const item = this.cachedItems.get(id);
+    if(item !== undefined || !this.cacheComplete) return item;
+    //all items of the collection are cached: there is no such item (the ID could be a string from URL though)
+    return this.cachedItems.get(typeof id === 'string' ? Number(id) : String(id)) ?? null;
+  }
+
+  /**
+   * move the item to the end of LRU order (it will be evicted last)
+   */
+  private cacheTouch(id:DB_EntityID) {
+    if(!this.cachedItems.has(id)) return;
+    const item = this.cachedItems.get(id)!;
+    this.cachedItems.delete(id);
+    this.cachedItems.set(id, item);
+  }
+
+  /**
+   * does the cached item have all the fields (it was loaded with them or with wider ones, like `*`)
+   * @param fields requested fields: names, `*` and dotted paths (`author.name`, `author.*`),
+   *    undefined - full item (`*`)
+   * @return true if the fields are loaded, or the item is not in cache / is null (nothing to check)
+   */
+  public cacheHasFields(id:DB_EntityID, fields?:string[]):boolean {
+    const loaded = this.cachedFields.get(id);
+    if(!loaded || this.cachedItems.get(id) === null) return true;
+    return (fields?.length ? fields : ['*']).every(field => field === this.cacheIDField
+      || loaded.some(pattern => CacheBaseService.cacheFieldCovers(pattern, field)));
+  }
+
+  /**
+   * is the field loaded by the pattern of query fields,
+   * `*` in the pattern matches any name, deeper pattern covers the field only by `*` (`*.*` covers `title`)
+   * @example cacheFieldCovers('*', 'title') === true; cacheFieldCovers('author.*', 'author.name') === true;
+   *    cacheFieldCovers('title', '*') === false; cacheFieldCovers('author.name', 'author') === false
+   */
+  static cacheFieldCovers(pattern:string, field:string):boolean {
+    const p = pattern.split('.'), f = field.split('.');
+    if(p.length < f.length) return false;
+    return p.every((part, i) => i < f.length ? part === '*' || part === f[i] : part === '*');
+  }
+
+  /**
+   * state of the cached item (or null) by its TTL
+   * @return 'fresh' - valid (or not in cache), 'stale' - expired, but could be returned while it's reloaded,
+   *    'expired' - should be loaded again
+   */
+  public cacheItemState(id:DB_EntityID):'fresh'|'stale'|'expired' {
+    const saved = this.cachedTimes.get(id);
+    const ttl = this.cachedItems.get(id) === null ? this.cacheNullTTL : this.cacheTTL;
+    if(saved === undefined || !ttl) return 'fresh';
+    const late = Date.now() - saved - ttl;
+    if(late < 0) return 'fresh';
+    return late < this.cacheStaleTime ? 'stale' : 'expired';
+  }
+
+  /**
+   * get an item by values of all fields of some computed index
+   * @param values field values, e.g. `{module: 'shop', name: 'cart'}` for 'module+name' index
+   *    (values of other fields must be equal in the found item, undefined values are ignored)
+   * @return item, null, or undefined if it's not in cache, doesn't have other values or there is no computed index for these fields
+   */
+  public cacheGetByFields(values:Partial<Record<Extract<keyof T, string>, unknown>>):T|null|undefined {
+    return this.cacheCount('cacheGetByField', this.cacheOut(this.cacheGetItemByFields(values)));
+  }
+
+  /** same as cacheGetByFields(), but the lookup is not counted in stats */
+  protected cacheGetItemByFields(values:Partial<Record<Extract<keyof T, string>, unknown>>):T|null|undefined {
+    if(!this.cache) return undefined;
+    for(const [indexName, fields] of this.cacheComputedIndexes) {
+      const key = CacheBaseService.cacheComputedKey(fields.map(field => values[field]));
+      const item = key !== undefined ? this.cacheGetItemByField(indexName as Extract<keyof T, string>, key) : undefined;
+      if(item && Object.entries(values).some(([field, value]) => value !== undefined && (item as Record<string, unknown>)[field] !== value)) return undefined;
+      if(item !== undefined) return item;
+    }
+    return undefined;
+  }
+
+  /**
+   * value of computed index for field values (JSON array, so values with any chars don't mix)
+   * @return undefined if some value is missing or is not a string or number
+   */
+  static cacheComputedKey(values:unknown[]):string|undefined {
+    if(values.some(val => typeof val !== 'string' && typeof val !== 'number')) return undefined;
+    return JSON.stringify(values);
   }
 
   public cacheGetByField(fieldName:Extract<keyof T, string>, value:string|number):T|null|undefined {
+    return this.cacheCount('cacheGetByField', this.cacheOut(this.cacheGetItemByField(fieldName, value)));
+  }
+
+  /** same as cacheGetByField(), but the lookup is not counted in stats */
+  protected cacheGetItemByField(fieldName:Extract<keyof T, string>, value:string|number):T|null|undefined {
     if(!this.cache) return undefined;
     const index = this.cacheIndex.get(fieldName);
     if(index) {
       const id = index[value];
-      if(id!==undefined && id!==null) return this.cacheGet(id);
+      if(id!==undefined && id!==null) return this.cacheGetItem(id);
+      if(this.cacheComplete) return null; //all items are cached, none has this value
     }
     return undefined;
   }
 
+  /**
+   * mark that all items with the value of non-unique indexed field are in cache
+   * (call it after all of them are saved with cacheSet(), e.g. getByField without limit)
+   * @param ids IDs of all items with the value (others that were in cache are removed from the value)
+   */
+  public cacheSetFieldComplete(fieldName:Extract<keyof T, string>, value:string|number, ids:DB_EntityID[]) {
+    const index = this.cacheMultiIndex.get(fieldName);
+    if(!this.cache || !index || !this.cacheQueryTTL) return;
+    index.set(String(value), {ids: new Set(ids), complete: Date.now()});
+  }
+
+  /**
+   * get all items with the value of non-unique indexed field
+   * @return items or undefined if we don't know all of them
+   *    (value is not complete, complete mark is older than queryTTL, or some items are expired),
+   *    all values are complete while the whole collection is in cache (@see cacheSetComplete)
+   */
+  public cacheGetAllByField(fieldName:Extract<keyof T, string>, value:string|number):T[]|undefined {
+    if(!this.cache) return undefined;
+    const entry = this.cacheMultiIndex.get(fieldName)?.get(String(value));
+    //all items of the collection are cached: there are no items with other values
+    if(!entry) return this.cacheComplete && this.cacheMultiIndex.has(fieldName) ? [] : undefined;
+    if(!this.cacheComplete && (!this.cacheQueryTTL || !entry.complete || entry.complete + this.cacheQueryTTL <= Date.now())) return undefined;
+    const items:T[] = [];
+    for(const id of entry.ids) {
+      const item = this.cacheGetItem(id);
+      if(!item) { entry.complete = 0; return undefined; }
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * mark that all items of the collection are in cache (or not),
+   * then lookups of items that are not in cache return null without requests
+   * @see DB_EntityService_Base.cachePreload
+   */
+  public cacheSetComplete(complete = true) {
+    this.cacheComplete = this.cache && complete;
+  }
+
+  /** are all items of the collection in cache (@see cacheSetComplete) */
+  public cacheIsComplete():boolean {
+    return this.cacheComplete;
+  }
+
+  /** is the field indexed by non-unique index (multiIndexBy option) */
+  public cacheHasMultiIndex(fieldName:string):boolean {
+    return this.cacheMultiIndex.has(fieldName as Extract<keyof T, string>);
+  }
+
+  /**
+   * save ordered IDs of the query results, so the same query could be answered from cache
+   * till TTL ends or entities are changed (items should be saved with cacheSet())
+   * @param query final query object (keys order and skip* flags do not matter)
+   * @param items results of the query
+   */
+  public cacheSetQuery(query:object, items:T[]) {
+    if(!this.cache || !this.cacheQueryTTL) return;
+    this.cachedQueries.set(CacheBaseService.cacheQueryKey(query), {
+      ids: items.map(item => item[this.cacheIDField] as DB_EntityID),
+      expires: Date.now() + this.cacheQueryTTL,
+    });
+  }
+
+  /**
+   * get cached results of the query
+   * @return items in the same order, or undefined if results are not cached,
+   *    expired or some of the items were removed from cache
+   */
+  public cacheGetQuery(query:object):T[]|undefined {
+    if(!this.cache || !this.cacheQueryTTL) return undefined;
+    const key = CacheBaseService.cacheQueryKey(query);
+    const cached = this.cachedQueries.get(key);
+    if(!cached) return undefined;
+
+    const items:T[] = [];
+    for(const id of cached.ids) {
+      const item = cached.expires > Date.now() ? this.cacheGetItem(id) : undefined;
+      if(!item) { this.cachedQueries.delete(key); return undefined; }
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * forget results of all queries, used when entities are changed
+   * (some could be added to or removed from the lists, or change their order)
+   */
+  public cacheInvalidateQueries() {
+    this.cachedQueries.clear();
+    this.cacheMultiIndex.forEach(index => index.forEach(entry => entry.complete = 0));
+  }
+
+  /** stable key of the query: object keys are sorted, cache flags are ignored */
+  static cacheQueryKey(query:object):string {
+    const q:Record<string, unknown> = {...query};
+    delete q['skipCache']; delete q['skipCacheSave'];
+    return CacheBaseService.queryFingerprint(q);
+  }
+
+  /** stable string of the query (object keys are sorted) to find identical requests */
+  static queryFingerprint(query:unknown):string {
+    return JSON.stringify(query, (key, val) => val && typeof val === 'object' && !Array.isArray(val)
+      ? Object.fromEntries(Object.keys(val).sort().map(k => [k, val[k]]))
+      : val
+    ) ?? '';
+  }
+
   /*public cacheQuery(query:DB_Query):T[]|null|undefined {
     console.log('cacheQuery', query); console.warn('cacheQuery not implemented yet');
     return null;
@@ -224,19 +615,26 @@ export abstract class CacheBaseService<T> {
    * remove item from the cache by its id,
    * also remove it from all indexes
    * @param id
+   * @param reindex item is removed to be saved again, so complete values of non-unique indexes stay complete
    * @protected
    */
-  protected cacheDelete(id:DB_EntityID) {
+  protected cacheDelete(id:DB_EntityID, reindex = false) {
     if(!this.cache) return;
+    if(!reindex) this.cacheSaveLater();
     this.cachedItems.delete(id);
-    //find and remove item ID from all indexes
-    this.cacheIndex.forEach((indexObj) => {
-      for (const valKey in indexObj) {
-        if (Object.prototype.hasOwnProperty.call(indexObj, valKey)) {
-          if (indexObj[valKey] === id) delete indexObj[valKey];
-        }
+    this.cachedTimes.delete(id);
+    this.cachedFields.delete(id);
+    //remove item ID from indexes by its saved values (if the value is not taken by other item already)
+    this.cacheIndexedValues.get(id)?.forEach(([fieldName, value, multi]) => {
+      if(multi) {
+        const entry = this.cacheMultiIndex.get(fieldName)?.get(String(value));
+        if(entry?.ids.delete(id) && !reindex) entry.complete = 0; //we don't have all items of the value anymore
+        return;
       }
+      const indexObj = this.cacheIndex.get(fieldName);
+      if(indexObj && indexObj[value] === id) delete indexObj[value];
     });
+    this.cacheIndexedValues.delete(id);
     //remove from last loaded item cache
     if(id === this.cacheLastLoadedItemID) {
       this.cacheLastLoadedItem = null;
@@ -244,23 +642,225 @@ export abstract class CacheBaseService<T> {
     }
   }
 
+  /**
+   * remove items that match the filter from cache (e.g. after batch delete or update by query on the server).
+   * Partially loaded items are removed too (fields of the filter could be not loaded),
+   * if the filter can't be evaluated locally - all cache is cleared.
+   * @return false if all cache was cleared
+   */
+  public cacheDeleteByFilter(filter?:DB_Filter<T>|Record<string, any>):boolean {
+    if(!this.cache) return true;
+    const toDelete:DB_EntityID[] = [];
+    for(const [id, item] of this.cachedItems) {
+      if(item === null) continue;
+      const match = this.cachedFields.has(id) || DB_LocalQuery.match(item as object, filter);
+      if(match === undefined) { this.cacheClear(); return false; }
+      if(match) toDelete.push(id);
+    }
+    toDelete.forEach(id => this.cacheDelete(id));
+    if(toDelete.length) this.cacheComplete = false; //removed items still exist on the server (changed by query)
+    this.cacheInvalidateQueries();
+    return true;
+  }
+
+  /**
+   * apply the change of items made by other service of the entity (@see DB_BrokerService.cacheShare):
+   * removes items by the filter and deleted IDs, merges changed items with cached ones
+   * (they are saved as partial with their fields) and invalidates cached lists
+   */
+  public cacheApplyChange(change:I_DB_CacheChange<T>) {
+    if(!this.cache) return;
+    if(change.filter) this.cacheDeleteByFilter(change.filter);
+    change.ids?.forEach(id => this.cacheDelete(id));
+    change.items?.forEach(item => this.cacheSet(this.cacheImmutable ? CacheBaseService.cacheClone(item) : item, undefined, Object.keys(item as object)));
+    this.cacheInvalidateQueries();
+  }
+
+  /**
+   * remove all items, nulls, indexes and query results from cache (settings are kept)
+   */
+  public cacheClear() {
+    this.cachedItems.clear();
+    this.cachedTimes.clear();
+    this.cachedFields.clear();
+    this.cacheIndexedValues.clear();
+    this.cacheIndex.forEach((indexObj, fieldName) => this.cacheIndex.set(fieldName, {}));
+    this.cacheMultiIndex.forEach(index => index.clear());
+    this.cachedQueries.clear();
+    this.cacheLastLoadedItem = null;
+    this.cacheLastLoadedItemID = null;
+    this.cacheComplete = false;
+    this.cacheSaveLater();
+  }
+
   /**
    * clear cache from old items
+   * @param removeExpired also remove items with ended TTL and expired query results (background timer)
    * @private
    */
-  private cacheMaintenance() {
-    if(this.cachedItems.size < this.cacheMaxItems) return;
-    console.log('cache maintenance of entity:', this.constructor.name);
+  private cacheMaintenance(removeExpired = false) {
+    if(removeExpired) {
+      for(const id of this.cachedItems.keys()) if(this.cacheItemState(id) === 'expired') {
+        this.cacheDelete(id);
+        this.cacheCounters.expirations++;
+        this.cacheComplete = false;
+      }
+      const now = Date.now();
+      this.cachedQueries.forEach((cached, key) => { if(cached.expires <= now) this.cachedQueries.delete(key); });
+    }
+    if(this.cachedItems.size <= this.cacheMaxItems) return;
 
-    //remove old items from map and indexes,
-    //start from keys that were added first (oldest)
-    const keys = Array.from(this.cachedItems.keys());
-    for(const key of keys) {
+    //remove least recently used items from map and indexes,
+    //they are first in the map (used items are moved to the end)
+    this.cacheComplete = false;
+    for(const key of this.cachedItems.keys()) {
       this.cacheDelete(key);
+      this.cacheCounters.evictions++;
       if(this.cachedItems.size <= this.cacheMaxItems) break;
     }
   }
 
+  //////////////////////////////////////////////////////////////////////////////
+  // IMMUTABLE ITEMS
+
+  /**
+   * the cached item as it's returned to consumers (`immutable` option): clone, deep-frozen item or the item itself
+   */
+  protected cacheOut<R extends T|null|undefined>(item:R):R {
+    if(!item || !this.cacheImmutable) return item;
+    return this.cacheImmutable === 'clone' ? CacheBaseService.cacheClone(item) : CacheBaseService.cacheDeepFreeze(item);
+  }
+
+  /**
+   * protect loaded items that were saved in cache from changes by consumers (`immutable` option),
+   * called when the items are final (after post-process: deep fields, caster, modifiers):
+   * cache gets clones of them ('clone'), or they are deep-frozen ('freeze').
+   * Cached items are found by ID: partial items are saved merged with old ones (a new object sharing nested values)
+   */
+  protected cacheRelease(items:T[]) {
+    if(!this.cache || !this.cacheImmutable) return;
+    for(const item of items) {
+      const id = item?.[this.cacheIDField] as DB_EntityID;
+      const cached = id === undefined || id === null ? undefined : this.cachedItems.get(id);
+      if(!cached) continue; //not saved in cache
+      if(this.cacheImmutable === 'freeze') { CacheBaseService.cacheDeepFreeze(item); CacheBaseService.cacheDeepFreeze(cached); continue; }
+      const copy = CacheBaseService.cacheClone(cached);
+      this.cachedItems.set(id, copy);
+      if(this.cacheLastLoadedItemID === id) this.cacheLastLoadedItem = copy;
+    }
+  }
+
+  /**
+   * deep copy of the item like `structuredClone()`, but objects keep their prototypes (e.g. instances made by caster)
+   * and functions are kept as is (structuredClone throws on them)
+   * @return copy of the value
+   */
+  static cacheClone<O>(value:O, copies = new WeakMap<object, unknown>()):O {
+    if(!value || typeof value !== 'object') return value;
+    if(copies.has(value)) return copies.get(value) as O; //circular references
+    if(value instanceof Date) return new Date(value.getTime()) as O;
+    if(ArrayBuffer.isView(value)) return (value as unknown as Uint8Array).slice() as O;
+    let copy:any;
+    if(Array.isArray(value)) {
+      copy = [];
+      copies.set(value, copy);
+      value.forEach(v => copy.push(CacheBaseService.cacheClone(v, copies)));
+    } else if(value instanceof Map) {
+      copy = new Map();
+      copies.set(value, copy);
+      value.forEach((v, k) => copy.set(k, CacheBaseService.cacheClone(v, copies)));
+    } else if(value instanceof Set) {
+      copy = new Set();
+      copies.set(value, copy);
+      value.forEach(v => copy.add(CacheBaseService.cacheClone(v, copies)));
+    } else {
+      copy = Object.create(Object.getPrototypeOf(value));
+      copies.set(value, copy);
+      for(const [key, v] of Object.entries(value)) copy[key] = CacheBaseService.cacheClone(v, copies);
+    }
+    return copy as O;
+  }
+
+  /**
+   * freeze the object and all nested objects and arrays (typed arrays can't be frozen, they are skipped)
+   * @return the same object
+   */
+  static cacheDeepFreeze<O>(obj:O):O {
+    if(!obj || typeof obj !== 'object' || Object.isFrozen(obj) || ArrayBuffer.isView(obj)) return obj;
+    Object.freeze(obj);
+    for(const value of Object.values(obj)) CacheBaseService.cacheDeepFreeze(value);
+    return obj;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // STATS
+
+  /**
+   * statistics of the cache: lookups by function, evictions, size and memory estimate
+   * (to tune `maxItems` and TTL, @see DB_BrokerService.cacheStats for all services)
+   */
+  public cacheStats():I_DB_CacheStats {
+    const lookups = structuredClone(this.cacheCounters.lookups);
+    let nulls = 0, memory = 0;
+    this.cachedItems.forEach(item => {
+      if(item === null) nulls++;
+      memory += CacheBaseService.CACHE_ENTRY_BYTES + (item === null ? 0 : CacheBaseService.cacheItemBytes(item));
+    });
+    this.cacheIndexedValues.forEach(values => memory += values.length * CacheBaseService.CACHE_ENTRY_BYTES);
+    this.cachedQueries.forEach(cached => memory += CacheBaseService.CACHE_ENTRY_BYTES + cached.ids.length * 8);
+    return {
+      lookups,
+      hitRate: CacheBaseService.cacheHitRate(lookups),
+      evictions: this.cacheCounters.evictions,
+      expirations: this.cacheCounters.expirations,
+      items: this.cachedItems.size - nulls,
+      nulls,
+      queries: this.cachedQueries.size,
+      maxItems: this.cacheMaxItems,
+      memory,
+    };
+  }
+
+  /** reset counters of lookups, evictions and expirations (cached items are kept) */
+  public cacheStatsReset() {
+    this.cacheCounters = CacheBaseService.cacheCountersNew();
+  }
+
+  /**
+   * count the result of the lookup in stats
+   * @return the same result
+   */
+  protected cacheCount<R>(path:keyof I_DB_CacheStats['lookups'], res:R):R {
+    if(!this.cache) return res;
+    const counters = this.cacheCounters.lookups[path];
+    if(res === undefined) counters.misses++; else if(res === null) counters.nullHits++; else counters.hits++;
+    return res;
+  }
+
+  /** share of lookups answered from cache (0 if there were no lookups) */
+  static cacheHitRate(lookups:I_DB_CacheStats['lookups']):number {
+    let found = 0, all = 0;
+    Object.values(lookups).forEach(({hits, nullHits, misses}) => { found += hits + nullHits; all += hits + nullHits + misses; });
+    return all ? found / all : 0;
+  }
+
+  /** estimated size of map entries and index values (bytes) */
+  private static CACHE_ENTRY_BYTES = 64;
+
+  /** estimated size of the item: JSON length in UTF-16 (0 if it can't be serialized, e.g. circular deep entities) */
+  private static cacheItemBytes(item:unknown):number {
+    try { return (JSON.stringify(item)?.length ?? 0) * 2; } catch { return 0; }
+  }
+
+  private static cacheCountersNew() {
+    const lookup = ():I_DB_CacheLookupStats => ({hits: 0, nullHits: 0, misses: 0});
+    return {
+      lookups: {cacheGet: lookup(), cacheGetByField: lookup(), cacheQuery: lookup()},
+      evictions: 0,
+      expirations: 0,
+    };
+  }
+
   /**
    * mostly for debug purposes
    */
@@ -268,8 +868,105 @@ export abstract class CacheBaseService<T> {
     return {
       items: this.cachedItems,
       byField: this.cacheIndex,
+      allByField: this.cacheMultiIndex,
+      queries: this.cachedQueries,
       maxItems: this.cacheMaxItems,
     };
   }
 
+  //////////////////////////////////////////////////////////////////////////////
+  // PERSISTENT CACHE
+
+  /**
+   * key of the cache in persistent storage if `persist.key` is not set
+   * (entity services use 'server:entity')
+   */
+  protected cacheStorageKey():string {
+    return this.constructor.name;
+  }
+
+  /**
+   * cached items and nulls to save in persistent storage
+   * (query results and complete values of non-unique indexes are not saved, indexes are made again on restore)
+   * @param version version of the data (`persist.version` option by default)
+   */
+  public cacheSnapshot(version:string|number = this.cachePersist?.version ?? 1):I_DB_CacheSnapshot<T> {
+    const items:DB_CacheSnapshotEntry<T>[] = [];
+    this.cachedItems.forEach((item, id) => {
+      const time = this.cachedTimes.get(id) ?? 0, fields = this.cachedFields.get(id);
+      items.push(fields ? [id, item, time, fields] : [id, item, time]);
+    });
+    return {version, saved: Date.now(), items};
+  }
+
+  /**
+   * add items and nulls of the snapshot to cache with their saved times,
+   * expired ones (by `ttl`/`nullTTL`) are skipped, already cached ones are kept (they are newer)
+   * @return number of restored items and nulls
+   */
+  public cacheHydrate(snapshot:I_DB_CacheSnapshot<T>):number {
+    if(!this.cache) return 0;
+    let count = 0;
+    for(const [id, item, time, fields] of snapshot.items) {
+      if(this.cachedItems.has(id)) continue;
+      if(item === null) this.cacheSetNullItem(id); else this.cacheSet(item, undefined, fields);
+      if(!this.cachedItems.has(id)) continue; //item without ID
+      this.cachedTimes.set(id, time);
+      if(this.cacheItemState(id) === 'expired') this.cacheDelete(id); else count++;
+    }
+    return count;
+  }
+
+  /**
+   * load the cache snapshot from persistent storage (`persist` option) and add its items to cache,
+   * snapshots of other version or older than `maxAge` are removed from the storage
+   * @return number of restored items and nulls (0 if there is no snapshot or the storage failed)
+   */
+  public async cacheRestore():Promise<number> {
+    const persist = this.cachePersist;
+    if(!this.cache || !persist) return 0;
+    const key = persist.key ?? this.cacheStorageKey();
+    try {
+      const snapshot = await persist.storage.load(key);
+      if(!snapshot) return 0;
+      if(snapshot.version !== (persist.version ?? 1) || !Array.isArray(snapshot.items)
+        || (persist.maxAge && Date.now() - snapshot.saved > persist.maxAge)) {
+        await persist.storage.remove(key);
+        return 0;
+      }
+      return this.cacheHydrate(snapshot);
+    } catch(e) {
+      console.warn(`[tps/db] cache restore error (${key}):`, e);
+      return 0;
+    }
+  }
+
+  /**
+   * save the cache snapshot to persistent storage now
+   * (it's saved automatically `persist.saveDelay` ms after changes, call it before the process exits)
+   * @return false if there is no storage or it failed
+   */
+  public async cacheSave():Promise<boolean> {
+    if(this.cacheSaveTimer) clearTimeout(this.cacheSaveTimer);
+    this.cacheSaveTimer = undefined;
+    const persist = this.cachePersist;
+    if(!this.cache || !persist) return false;
+    const key = persist.key ?? this.cacheStorageKey();
+    try {
+      await persist.storage.save(key, this.cacheSnapshot());
+      return true;
+    } catch(e) {
+      console.warn(`[tps/db] cache save error (${key}):`, e);
+      return false;
+    }
+  }
+
+  /** save the cache after `persist.saveDelay`, all changes in this time are saved together */
+  private cacheSaveLater() {
+    if(!this.cachePersist || this.cacheSaveTimer) return;
+    this.cacheSaveTimer = setTimeout(() => this.cacheSave(), this.cachePersist.saveDelay ?? 1000);
+    //don't keep node process alive only for the cache
+    (this.cacheSaveTimer as {unref?:() => void}).unref?.();
+  }
+
 }
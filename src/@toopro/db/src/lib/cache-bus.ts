@@ -0,0 +1,68 @@
+import { DB_EntityID } from './types/types.js';
+import { DB_Filter } from './types/query.type.js';
+
+/**
+ * change of entity items made by one service,
+ * other caches of the same entity apply it (@see CacheBaseService.cacheApplyChange)
+ */
+export interface I_DB_CacheChange<T> {
+  /** items matching the filter are removed from cache (all items if the filter can't be evaluated locally) */
+  filter?:DB_Filter<T>|Record<string, any>,
+  /** IDs of deleted items */
+  ids?:DB_EntityID[],
+  /** added/updated items (values returned by the server), they are merged with cached ones */
+  items?:T[],
+}
+
+/**
+ * message of the shared cache channel, must be serializable to JSON
+ * to be sent to other processes by the transport
+ */
+export interface I_DB_CacheMessage<T = Record<string, any>> extends I_DB_CacheChange<T> {
+  /** server name of the entity */
+  server:string,
+  /** entity name (without server prefix) */
+  entity:string,
+  /** member ID of the service that made the change (`brokerId#n`), it doesn't get own messages */
+  origin:string,
+}
+
+/**
+ * transport of the shared cache messages between brokers (processes, browser tabs, servers),
+ * could be made with BroadcastChannel, redis pub/sub, websockets, etc.
+ * Messages published by the broker could come back to it by `subscribe()`, they are skipped.
+ *
+ * @example
+ * const channel = new BroadcastChannel('db-cache');
+ * dbBroker.cacheUseTransport({
+ *   publish: message => channel.postMessage(message),
+ *   subscribe: listener => {
+ *     const onMessage = (e:MessageEvent) => listener(e.data);
+ *     channel.addEventListener('message', onMessage);
+ *     return () => channel.removeEventListener('message', onMessage);
+ *   },
+ * });
+ */
+export interface I_DB_CacheTransport {
+  publish(message:I_DB_CacheMessage):void;
+  /** @return function to unsubscribe */
+  subscribe(listener:(message:I_DB_CacheMessage) => void):() => void;
+}
+
+/**
+ * default transport of the broker: messages are delivered synchronously
+ * to the listeners in the same process (brokers that use the same instance)
+ */
+export class DB_CacheBusInProcess implements I_DB_CacheTransport {
+
+  private listeners = new Set<(message:I_DB_CacheMessage) => void>();
+
+  publish(message:I_DB_CacheMessage) {
+    this.listeners.forEach(listener => listener(message));
+  }
+
+  subscribe(listener:(message:I_DB_CacheMessage) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+}
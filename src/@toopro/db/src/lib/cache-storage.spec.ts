@@ -0,0 +1,118 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DB_BrokerService } from './broker.service.js';
+import { ITestEntity, TestMemoryEntityService } from './types/TestEntity.service.js';
+import { DBtype } from './types/types.js';
+import { dbqb } from './types/query.type.js';
+import { DB_CacheStorage_File, DB_CacheStorage_Web, I_DB_CacheStorage, I_DB_WebStorageLike } from './cache-storage.js';
+
+/** localStorage of the browser */
+class TestWebStorage implements I_DB_WebStorageLike {
+  data = new Map<string, string>();
+  getItem(key:string) { return this.data.get(key) ?? null; }
+  setItem(key:string, value:string) { this.data.set(key, value); }
+  removeItem(key:string) { this.data.delete(key); }
+}
+
+describe('Persistent cache storage (@toopro/db)', () => {
+
+  let dbBroker:DB_BrokerService;
+  let service:TestMemoryEntityService;
+
+  beforeEach(async () => {
+    dbBroker = new DB_BrokerService();
+    dbBroker.upsertServer('local', {type: DBtype.memory, entities: ['test']});
+    service = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    await service.add([
+      {status: 'active', value: 'Alpha one', decimal: 10},
+      {status: 'draft',  value: 'beta two',  decimal: 20},
+    ], false);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should save cache to web storage and restore it with nulls and partial items', async () => {
+    const local = new TestWebStorage();
+    const storage = new DB_CacheStorage_Web(local);
+    service.cacheEnable({indexBy: ['value'], persist: {storage}});
+    expect(await service.cacheRestored).toBe(0);
+    await service.getById(1);
+    expect(await service.getById(100)).toBeNull();
+    await service.query(dbqb<ITestEntity>().equal('id', 2).fields(['id', 'status']));
+    expect(await service.cacheSave()).toBe(true);
+    expect(JSON.parse(local.data.get('tps-db-cache:local:test')!).items).toHaveLength(3);
+
+    const restored = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    restored.cacheEnable({indexBy: ['value'], persist: {storage}});
+    expect(await restored.cacheRestored).toBe(3);
+    expect(restored.cacheGet(1)?.value).toBe('Alpha one');
+    expect(restored.cacheGetByField('value', 'Alpha one')?.id).toBe(1); //indexes are made again
+    expect(restored.cacheGet(100)).toBeNull(); //known missing
+    expect(restored.cacheGet('100')).toBeUndefined(); //ID types are kept
+    expect(restored.cacheHasFields(2, ['status'])).toBe(true);
+    expect(restored.cacheHasFields(2, ['value'])).toBe(false);
+
+    //other version of data is dropped
+    const changed = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    changed.cacheEnable({persist: {storage, version: 2}});
+    expect(await changed.cacheRestored).toBe(0);
+    expect(local.data.size).toBe(0);
+  });
+
+  it('should skip expired items and old snapshots on restore', async () => {
+    let now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const local = new TestWebStorage();
+    const storage = new DB_CacheStorage_Web(local);
+    service.cacheEnable({ttl: 10_000, nullTTL: 1_000, persist: {storage, key: 'items'}});
+    await service.getById(1);
+    now += 5_000;
+    await service.getById(2);
+    await service.getById(100);
+    await service.cacheSave();
+
+    now += 7_000; //item 1 and null are expired
+    const restored = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    restored.cacheEnable({ttl: 10_000, nullTTL: 1_000, persist: {storage, key: 'items'}});
+    expect(await restored.cacheRestored).toBe(1);
+    expect(restored.cacheGet(1)).toBeUndefined();
+    expect(restored.cacheGet(2)?.value).toBe('beta two');
+    expect(restored.cacheGet(100)).toBeUndefined();
+
+    const old = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    old.cacheEnable({persist: {storage, key: 'items', maxAge: 5_000}});
+    expect(await old.cacheRestored).toBe(0);
+  });
+
+  it('should save changes with delay', async () => {
+    jest.useFakeTimers();
+    const storage:I_DB_CacheStorage = {load: jest.fn(async () => undefined), save: jest.fn(async () => undefined), remove: jest.fn()};
+    service.cacheEnable({persist: {storage, saveDelay: 500}});
+    await service.getAll();
+    await service.delete(1);
+    expect(storage.save).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(500);
+    expect(storage.save).toHaveBeenCalledTimes(1);
+    expect((storage.save as jest.Mock).mock.calls[0][1].items.map((i:unknown[]) => i[0])).toEqual([2]);
+    jest.useRealTimers();
+  });
+
+  it('should keep snapshots in JSON files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'tps-db-cache-'));
+    try {
+      const storage = new DB_CacheStorage_File(join(dir, 'cache'));
+      expect(await storage.load('local:test')).toBeUndefined();
+      await storage.save('local:test', {version: 1, saved: 1, items: [[1, {id: 1}, 1], [2, null, 1]]});
+      expect(await readdir(join(dir, 'cache'))).toEqual(['local%3Atest.json']);
+      expect(await storage.load('local:test')).toEqual({version: 1, saved: 1, items: [[1, {id: 1}, 1], [2, null, 1]]});
+      await storage.remove('local:test');
+      await storage.remove('local:test'); //no error if there is no file
+      expect(await storage.load('local:test')).toBeUndefined();
+      expect(await new DB_CacheStorage_Web(new TestWebStorage()).load('local:test')).toBeUndefined();
+    } finally {
+      await rm(dir, {recursive: true, force: true});
+    }
+  });
+
+});
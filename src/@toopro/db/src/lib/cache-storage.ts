@@ -0,0 +1,192 @@
+import { DB_EntityID } from './types/types.js';
+
+/**
+ * cached item in the snapshot: ID, item or null (we know that there is no such item),
+ * time when it was saved in cache (ms) and fields of partially loaded item.
+ * Entries are arrays (not an object by ID) to keep types of IDs (number/string) in JSON
+ */
+export type DB_CacheSnapshotEntry<T> = [DB_EntityID, T|null, number, string[]?];
+
+/**
+ * cache of the service saved in persistent storage (@see CacheBaseService.cacheSave)
+ */
+export interface I_DB_CacheSnapshot<T> {
+  /** version of the cached data (`persist.version` option), snapshots of other versions are not restored */
+  version:string|number,
+  /** when the snapshot was saved (ms) */
+  saved:number,
+  /** items in LRU order (least recently used first) */
+  items:DB_CacheSnapshotEntry<T>[],
+}
+
+/**
+ * persistent storage of cache snapshots by key (one key for each service),
+ * snapshots are plain JSON objects
+ */
+export interface I_DB_CacheStorage {
+  /** @return snapshot or undefined if there is no such key */
+  load(key:string):Promise<I_DB_CacheSnapshot<any>|undefined>;
+  save(key:string, snapshot:I_DB_CacheSnapshot<any>):Promise<void>;
+  remove(key:string):Promise<void>;
+}
+
+/**
+ * options of the persistent cache (`persist` option of `cacheEnable()`)
+ */
+export interface I_DB_CachePersistOptions {
+  storage:I_DB_CacheStorage,
+  /**
+   * key of the service cache in the storage
+   * @default 'server:entity' for entity services
+   */
+  key?:string,
+  /**
+   * version of the cached data, change it when entities are changed (new fields, other values),
+   * so old snapshots are dropped
+   * @default 1
+   */
+  version?:string|number,
+  /**
+   * how long to wait after the cache is changed to save it (ms), changes in this time are saved together
+   * @default 1000
+   */
+  saveDelay?:number,
+  /**
+   * max age of the snapshot to restore it (ms), items without TTL could be restored only while the snapshot is younger
+   * (items with `ttl` are restored while they are not expired)
+   * @default 0 - any age
+   */
+  maxAge?:number,
+}
+
+//////////////////////////////////////////////////////////////////////////////
+// STORAGE IMPLEMENTATIONS
+
+/** part of the Web Storage API (localStorage, sessionStorage) used by the cache */
+export interface I_DB_WebStorageLike {
+  getItem(key:string):string|null;
+  setItem(key:string, value:string):void;
+  removeItem(key:string):void;
+}
+
+/**
+ * cache storage in localStorage/sessionStorage (JSON strings),
+ * it's limited to a few MB for the whole site, so use it for small reference collections
+ * @example
+ * this.cacheEnable({persist: {storage: new DB_CacheStorage_Web()}});
+ */
+export class DB_CacheStorage_Web implements I_DB_CacheStorage {
+
+  /**
+   * @param storage localStorage by default
+   * @param prefix prefix of the keys in the storage
+   */
+  constructor(private storage:I_DB_WebStorageLike = (globalThis as unknown as {localStorage:I_DB_WebStorageLike}).localStorage, private prefix = 'tps-db-cache:') {}
+
+  async load(key:string) {
+    const json = this.storage.getItem(this.prefix + key);
+    return json === null ? undefined : JSON.parse(json) as I_DB_CacheSnapshot<any>;
+  }
+
+  async save(key:string, snapshot:I_DB_CacheSnapshot<any>) {
+    this.storage.setItem(this.prefix + key, JSON.stringify(snapshot));
+  }
+
+  async remove(key:string) {
+    this.storage.removeItem(this.prefix + key);
+  }
+}
+
+/**
+ * cache storage in IndexedDB of the browser (bigger collections than localStorage),
+ * snapshots are saved as objects in one object store by key
+ */
+export class DB_CacheStorage_IndexedDB implements I_DB_CacheStorage {
+
+  private db?:Promise<any>;
+
+  /**
+   * @param dbName name of IndexedDB database
+   * @param storeName name of the object store with snapshots
+   * @param factory IDBFactory (`indexedDB` of the browser by default)
+   */
+  constructor(private dbName = 'tps-db-cache', private storeName = 'snapshots', private factory:any = (globalThis as any).indexedDB) {}
+
+  async load(key:string) {
+    const res = await this.request('readonly', store => store.get(key));
+    return (res ?? undefined) as I_DB_CacheSnapshot<any>|undefined;
+  }
+
+  async save(key:string, snapshot:I_DB_CacheSnapshot<any>) {
+    await this.request('readwrite', store => store.put(snapshot, key));
+  }
+
+  async remove(key:string) {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  /** run the request to the object store and wait for its result */
+  private async request(mode:'readonly'|'readwrite', makeRequest:(store:any) => any):Promise<unknown> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const req = makeRequest(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  private open():Promise<any> {
+    if(!this.factory) return Promise.reject(new Error('[tps/db] IndexedDB is not available'));
+    if(!this.db) this.db = new Promise((resolve, reject) => {
+      const req = this.factory.open(this.dbName, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(this.storeName);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => { this.db = undefined; reject(req.error); };
+    });
+    return this.db;
+  }
+}
+
+/**
+ * cache storage in JSON files on Node (one file for each key in the directory),
+ * files are written to temp file first and renamed, so they are not broken if the process stops
+ * @example
+ * this.cacheEnable({persist: {storage: new DB_CacheStorage_File('./.cache/db')}});
+ */
+export class DB_CacheStorage_File implements I_DB_CacheStorage {
+
+  /** @param dir directory of the files (created if not exists) */
+  constructor(private dir:string) {}
+
+  async load(key:string) {
+    const fs = await DB_CacheStorage_File.fs();
+    try {
+      return JSON.parse(await fs.readFile(this.file(key), 'utf8')) as I_DB_CacheSnapshot<any>;
+    } catch(e) {
+      if((e as {code?:string}).code === 'ENOENT') return undefined;
+      throw e;
+    }
+  }
+
+  async save(key:string, snapshot:I_DB_CacheSnapshot<any>) {
+    const fs = await DB_CacheStorage_File.fs();
+    await fs.mkdir(this.dir, {recursive: true});
+    const tmp = `${this.file(key)}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(tmp, this.file(key));
+  }
+
+  async remove(key:string) {
+    const fs = await DB_CacheStorage_File.fs();
+    await fs.rm(this.file(key), {force: true});
+  }
+
+  private file(key:string) {
+    return `${this.dir}/${encodeURIComponent(key)}.json`;
+  }
+
+  private static async fs() {
+    const module = 'node:fs/promises'; //not bundled for browsers
+    return await import(module) as typeof import('node:fs/promises');
+  }
+}
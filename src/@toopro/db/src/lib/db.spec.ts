@@ -18,6 +18,7 @@ import {
   ServersConfigHash
 } from './types/types.js';
 import { DB_Query, DB_QueryBuilder, dbqb, I_DB_Query } from './types/query.type.js';
+import { DB_DirectusStandIn } from './testing/directus-stand-in.js';
 
 describe('TestEntityService (@toopro/db)', () => {
 
@@ -34,6 +35,8 @@ describe('TestEntityService (@toopro/db)', () => {
     value: 'rnd:'+Math.round(Math.random()*1000)+' -middle- end',
   };
   let secondEntityID:DB_EntityID;
+  //without integration env the local stand-in of directus server is used
+  let standIn:DB_DirectusStandIn|undefined;
 
   //init and login
   beforeAll(async () => {
@@ -45,9 +48,21 @@ describe('TestEntityService (@toopro/db)', () => {
     }
 
     // Load required env vars
-    const LOGIN = process.env['TPS_DB_STATS_LOGIN'];
-    const PASSWORD = process.env['TPS_DB_STATS_PASSWORD'];
-    const URL = process.env['TPS_DB_STATS_URL'];
+    let LOGIN = process.env['TPS_DB_STATS_LOGIN'];
+    let PASSWORD = process.env['TPS_DB_STATS_PASSWORD'];
+    let URL = process.env['TPS_DB_STATS_URL'];
+    if (!enableIntegration) {
+      LOGIN = 'test@example.com'; PASSWORD = 'test';
+      standIn = new DB_DirectusStandIn({
+        users: [{email: LOGIN, password: PASSWORD}],
+        collections: {
+          test: [{id: 1, status: 'active', value: 'default', nested: 1}, {id: 2, status: 'draft', value: 'second'}],
+          test_nested: [{id: 1, status: 'active'}],
+          directus_roles: [{id: 'admin', name: 'Administrator'}],
+        },
+      });
+      URL = await standIn.start();
+    }
 
     if (enableIntegration && (!URL || (!LOGIN && !process.env['TPS_DB_STATS_TOKEN']))) {
       throw new Error("Missing required environment variables for @toopro/db tests. Please set TPS_DB_STATS_URL and either TPS_DB_STATS_LOGIN/TPS_DB_STATS_PASSWORD or TPS_DB_STATS_TOKEN in your .env file.");
@@ -77,23 +92,17 @@ describe('TestEntityService (@toopro/db)', () => {
       verboseLevel:DB_VerboseLevel.TRACE,
       casterOpts: {schema: {decimal: 'number'}}
     });
-    if (enableIntegration) {
-      await testEntityService.login();
-      testEntityService.cacheEnable(['status']);
-      testNestedService = new TestNestedEntityService(dbBroker); //init nest item service (to test deep loading)
-      //wait 100ms for login notif
-      await new Promise((res) => setTimeout(res, 100));
-      canRunRemote = srvStatus.isLoggedIn === IsLoginStatus.yes;
-    } else {
-      // Even without integration, we can still construct services for unit tests
-      testEntityService = new TestEntityService(dbBroker, {
-        verboseLevel:DB_VerboseLevel.TRACE,
-        casterOpts: {schema: {decimal: 'number'}}
-      });
-      testEntityService.cacheEnable(['status']);
-      testNestedService = new TestNestedEntityService(dbBroker);
-      canRunRemote = false;
-    }
+    await testEntityService.login();
+    testEntityService.cacheEnable(['status']);
+    testNestedService = new TestNestedEntityService(dbBroker); //init nest item service (to test deep loading)
+    //wait 100ms for login notif
+    await new Promise((res) => setTimeout(res, 100));
+    canRunRemote = srvStatus.isLoggedIn === IsLoginStatus.yes;
+  });
+
+  afterAll(async () => {
+    (dbBroker.getServer(DB_ServerNamesStd.stats) as DB_ServerInfo_Directus).i?.stopRefreshing(); //SDK token refresh timer
+    await standIn?.stop();
   });
 
 
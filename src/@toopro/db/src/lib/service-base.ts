@@ -1,10 +1,28 @@
 import { DB_Credentials, DB_EntityID, DB_ServerInfo, DB_VerboseLevel, IsLoginStatus } from './types/types.js';
-import { DB_FieldFilterOperator, DB_FieldPath, DB_Query, DB_QueryBuilder, dbqb, I_DB_Query } from './types/query.type.js';
+import {
+  DB_Aggregate,
+  DB_AggregateResult,
+  DB_AggregateValue,
+  DB_FieldFilterOperator,
+  DB_FieldPath,
+  DB_Filter,
+  DB_Query,
+  DB_QueryBuilder,
+  dbqb,
+  I_DB_PageOptions,
+  I_DB_Query,
+  I_DB_QueryPage
+} from './types/query.type.js';
+import { DB_QueryCursor } from './types/query-cursor.js';
+import { DB_LocalQuery } from './utils/local-query.js';
 import { CacheBaseService } from './cache-base.service.js';
 import { DB_BrokerService } from './broker.service.js';
 import { I_DB_EntityServiceBase } from './types/service-base.interface.js';
 import { DB_Error, DB_Error_Directus, DB_ErrorLevel } from './types/db.error.js';
 import { DB_EntityService_Options } from './types/service-options.interface.js';
+import { I_DB_CacheOptions } from './types/cache-options.interface.js';
+import { I_DB_CacheChange } from './cache-bus.js';
+import { DB_Middleware, DB_Operation, I_DB_OperationContext } from './types/middleware.interface.js';
 import { TpsCaster, TpsCasterOptions } from '@toopro/utils';
 
 /**
@@ -49,18 +67,30 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
    * */
   errorsToConsole = true;
 
-  /**
-   * Use this to modify the entity after loading from directus
-   */
-  postLoadModifier?: (entity:T) => T;
-  /**
-   * before sending requests to remote server we pass arguments to this function
-   * to modify them before sending
-   */
-  preLoadModifier?: (fName:string, ...args:any[]) => any[];
+  /** middleware of the service operations (@see use) */
+  middleware:DB_Middleware<T>[] = [];
+  /** operations of implementations that run through middleware */
+  static readonly OPERATIONS:DB_Operation[] = ['query', 'aggregate', 'add', 'update', 'upsert', 'delete', 'deleteIds', 'batchUpdate', 'batchDelete'];
+  /** implementations of the operations without middleware (@see operationDirect) */
+  private operationImpl = new Map<DB_Operation, (...args:unknown[]) => Promise<unknown>>();
 
   defaultQuery:I_DB_Query = {};
 
+  /** @see DB_EntityService_Options.batchGetById */
+  batchGetById:boolean|number = false;
+  /** max number of IDs in one request of batched `getById()` calls */
+  static BATCH_MAX_IDS = 100;
+  /** @see DB_EntityService_Options.dedupeQueries */
+  dedupeQueries = false;
+  /** server requests that are not finished yet by query fingerprint, with callers that joined them */
+  private inFlight = new Map<string, {resolve:(res:any) => void, reject:(e:unknown) => void}[]>();
+  /** `getById()` callers that wait for the batch request, by ID */
+  private getByIdBatch?:Map<DB_EntityID, {resolve:(item:T|null) => void, reject:(e:unknown) => void}[]>;
+  /** queries that reload stale cached items in background, by query key */
+  private revalidating = new Set<string>();
+  /** member ID in the broker shared cache registry (if cache is enabled with `shared` option) */
+  private cacheMemberId?:string;
+
   idFieldName:Extract<keyof T, string>;
 
 
@@ -98,6 +128,7 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
     //options apply (@see DB_EntityService_Options)
     Object.assign(this, options);
     if(this.casterOpts) this.casterOpts.rewriteFields = true; //always rewrite fields in caster for entity services
+    this.middlewareInstall();
     this.log(`DB_Service created for ${this.entityName} using args (${entityName}) with server ${srv!.name}`, DB_VerboseLevel.DEBUG, this);
 
     //login if needed (this async arrow function is needed to use await in constructor)
@@ -250,12 +281,162 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
   }
 
 
+  //////////////////////////////////////////////////////////////////////////////
+  // MIDDLEWARE
+
+  /**
+   * add middleware to operations of the service, it runs after middleware of the broker in order of adding
+   * @see I_DB_EntityServiceBase.use, DB_BrokerService.use
+   */
+  use(...middleware:DB_Middleware<T>[]):this {
+    this.middleware = [...this.middleware, ...middleware];
+    return this;
+  }
+
+  /**
+   * replace operations of the implementation (most derived ones) with functions
+   * that run them through middleware chain of the broker and the service
+   */
+  private middlewareInstall() {
+    for(const operation of DB_EntityService_Base.OPERATIONS) {
+      const run = (this as any)[operation] as (...args:unknown[]) => Promise<unknown>;
+      this.operationImpl.set(operation, run);
+      (this as any)[operation] = (...args:unknown[]) => this.middlewareRun(operation, args, run);
+    }
+  }
+
+  /**
+   * implementation of the operation without middleware, use it in implementations
+   * to call operations inside other operations (e.g. `upsert()` calls `update()` or `add()`),
+   * so middleware runs once for the call of the consumer
+   * @example
+   * return await this.operationDirect('update')(entityWithId, id);
+   */
+  protected operationDirect<K extends DB_Operation>(operation:K):this[K] {
+    return (this.operationImpl.get(operation)?.bind(this) ?? this[operation]) as this[K];
+  }
+
+  /**
+   * run the operation through middleware (without middleware it's called directly)
+   * @param run implementation of the operation
+   */
+  private middlewareRun(operation:DB_Operation, args:unknown[], run:(...args:unknown[]) => Promise<unknown>):Promise<unknown> {
+    const chain = [...this.srvInfo.broker.middleware, ...this.middleware];
+    if(!chain.length) return run.apply(this, args);
+
+    this.lastErrorReset(); //errors of short-circuited operations are not mixed with previous ones
+    const ctx = DB_EntityService_Base.operationContext<T>(operation, args, {entity: this.entityName, server: this.srvInfo.name, service: this});
+    const next = async (i:number):Promise<unknown> => {
+      if(i < chain.length) return await chain[i](ctx, () => next(i + 1));
+      try {
+        const res = await run.apply(this, DB_EntityService_Base.operationArgs(ctx));
+        if(this.lastError) ctx.error = this.lastError;
+        return res;
+      } catch(e) {
+        ctx.error = e;
+        throw e;
+      }
+    };
+    return next(0);
+  }
+
+  /** context of the operation with its arguments as named fields (@see operationArgs) */
+  private static operationContext<T extends Record<string, any>>(operation:DB_Operation, args:unknown[], base:Pick<I_DB_OperationContext<T>, 'entity'|'server'|'service'>):I_DB_OperationContext<T> {
+    const ctx:I_DB_OperationContext<T> = {...base, operation, args: [], state: {}};
+    const toQuery = (query:unknown) => ({...(query instanceof DB_Query ? query.q : query as I_DB_Query<T>|undefined)}) as I_DB_Query<T>;
+    switch(operation) {
+      case 'query': case 'aggregate': case 'batchDelete': ctx.query = toQuery(args[0]); break;
+      case 'add':         ctx.payload = args[0] as T|T[]; ctx.args = args.slice(1); break;
+      case 'update':      ctx.payload = args[0] as Partial<T>; ctx.ids = args[1] as DB_EntityID|undefined; break;
+      case 'upsert':      ctx.payload = args[0] as Partial<T>; break;
+      case 'delete':      ctx.ids = args[0] as DB_EntityID; break;
+      case 'deleteIds':   ctx.ids = args[0] as DB_EntityID[]; ctx.args = args.slice(1); break;
+      case 'batchUpdate':
+        ctx.payload = args[0] as Partial<T>;
+        if(Array.isArray(args[1])) ctx.ids = args[1]; else ctx.query = toQuery(args[1]);
+        ctx.args = args.slice(2);
+        break;
+    }
+    return ctx;
+  }
+
+  /** arguments of the operation from the context changed by middleware */
+  private static operationArgs<T extends Record<string, any>>(ctx:I_DB_OperationContext<T>):unknown[] {
+    switch(ctx.operation) {
+      case 'query': case 'aggregate': case 'batchDelete': return [ctx.query];
+      case 'update':      return [ctx.payload, ctx.ids];
+      case 'upsert':      return [ctx.payload];
+      case 'delete':      return [ctx.ids];
+      case 'deleteIds':   return [ctx.ids, ...ctx.args];
+      case 'batchUpdate': return [ctx.payload, ctx.ids ?? ctx.query, ...ctx.args];
+      default:            return [ctx.payload, ...ctx.args];
+    }
+  }
+
+
   //////////////////////////////////////////////////////////////////////////////
   // CACHE QUERY FUNCTIONS
 
   //overload the cacheEnable function to set the idFieldName from the entity service implementation
-  public override cacheEnable(indexBy: Extract<keyof T, string>[] = [], idPropName = 'id', maxItems = 100, computedIndexBy?: string[]) {
-    super.cacheEnable(indexBy, idPropName, maxItems, computedIndexBy);
+  public override cacheEnable(indexBy: Extract<keyof T, string>[]|I_DB_CacheOptions<T> = [], idPropName = 'id', maxItems = 100, computedIndexBy?: string[], queryTTL = 1000*60) {
+    super.cacheEnable(indexBy, idPropName, maxItems, computedIndexBy, queryTTL);
+    this.srvInfo.broker.cacheRegister(this.srvInfo.name, this.entityName, this); //for stats of all services
+    const shared = !Array.isArray(indexBy) && !!indexBy.shared;
+    if(shared && !this.cacheMemberId) this.cacheMemberId = this.srvInfo.broker.cacheShare(this.srvInfo.name, this.entityName, this);
+    if(!shared) this.cacheUnshare();
+  }
+
+  /** persistent cache of the entity is saved by 'server:entity' key */
+  protected override cacheStorageKey():string {
+    return `${this.srvInfo.name}:${this.entityName}`;
+  }
+
+  /**
+   * stop sharing cache changes with other services of the entity
+   * (call it when the service with `shared` cache is not used anymore, so the broker doesn't keep it)
+   */
+  public cacheUnshare() {
+    if(!this.cacheMemberId) return;
+    this.srvInfo.broker.cacheUnshare(this.cacheMemberId);
+    this.cacheMemberId = undefined;
+  }
+
+  /**
+   * send the change of items to other services of the entity with shared cache
+   * (call it in implementations after changes are saved on the server)
+   */
+  protected cachePublish(change:I_DB_CacheChange<T>) {
+    if(!this.cacheMemberId) return;
+    this.srvInfo.broker.cachePublish({...change, server: this.srvInfo.name, entity: this.entityName, origin: this.cacheMemberId});
+  }
+
+  /**
+   * load all items of the collection to cache page by page (with indexes),
+   * after that items and index values that are not in cache don't exist:
+   * queries by ID and indexed fields return null/empty results without requests.
+   * The collection is marked as complete only if the query has no filter and all items fit in `maxItems`,
+   * the mark is reset when items are evicted, expired or removed by filter
+   * (changes made by other services are not seen, unless they use `shared` cache)
+   * @param query fields, sort or page size (`limit`) of the loading queries
+   * @return number of loaded items or error string
+   * @example
+   * this.cacheEnable({indexBy: ['code'], multiIndexBy: ['country'], maxItems: 5000});
+   * await this.cachePreload({fields: ['id', 'code', 'country', 'name'], limit: 1000});
+   */
+  public async cachePreload(query:I_DB_Query<T>|DB_QueryBuilder<T> = {}):Promise<number|string> {
+    this.lastErrorReset();
+    if(!this.cache) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} cache is not enabled to preload`, this.entityName, '', DB_ErrorLevel.WARNING));
+    const q = (query instanceof DB_Query ? query.q : query) as I_DB_Query<T>;
+    this.cacheSetComplete(false);
+
+    let loaded = 0;
+    for await (const page of this.queryPages(q, {pageSize: q.limit || 100, cache: true})) loaded += page.length;
+    if(this.lastError) return this.lastError.toString();
+
+    const filtered = !!(q.search || this.defaultQuery.search) || [q.filter, this.defaultQuery.filter].some(f => f && Object.keys(f).length);
+    if(!filtered && loaded <= this.cacheMaxItems) this.cacheSetComplete();
+    else this.log(`${this.entityName}: preloaded ${loaded} items are not the whole collection in cache (filter or maxItems=${this.cacheMaxItems})`, DB_VerboseLevel.WARN);
+    return loaded;
   }
 
   /**
@@ -267,25 +448,37 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
    *  - null if we had the request to server and we know that there no items for this query
    */
   public cacheQuery(query:I_DB_Query):T[]|null|undefined {
+    const res = this.cacheFind(query);
+    //items partially loaded by other queries are not returned if they don't have the requested fields
+    if(res && res.some(item => !this.cacheHasFields(item[this.idFieldName] as DB_EntityID, query.fields as string[]|undefined))) return this.cacheCount('cacheQuery', undefined);
+    //stale-while-revalidate: expired items are returned, but the query is reloaded in background
+    if(res && this.cacheStaleTime && res.some(item => this.cacheItemState(item[this.idFieldName] as DB_EntityID) === 'stale')) {
+      this.cacheRevalidate(query);
+    }
+    return this.cacheCount('cacheQuery', res && this.cacheImmutable ? res.map(item => this.cacheOut(item)) : res);
+  }
+
+  /** find results of the query in cache (by IDs, indexed fields, or saved results of the same query) */
+  private cacheFind(query:I_DB_Query):T[]|null|undefined {
 
     //if we have ID filter in a query
     if(query?.filter && (query.filter as any)[this.idFieldName as string]) {
       const idFilter = (query.filter as any)[this.idFieldName as string];      //get the ID filter to fast access
       //for _eq single ID
       if(typeof idFilter === 'object' && idFilter._eq) {
-        const cached = this.cacheGet(idFilter._eq);
+        const cached = this.cacheGetItem(idFilter._eq);
         if(cached) return [cached as T];
-        else return undefined;
+        return cached === null ? null : undefined; //null: not found before (until `nullTTL`) or all items are cached
       }
 
       //for _in array of IDs
       if(typeof idFilter === 'object' && idFilter._in && Array.isArray(idFilter._in)) {
         const retArr:T[] = [];
         for(const id of idFilter._in) {
-          const item = this.cacheGet(id); //console.log('cache get id',id,item, typeof item);
-          if(item) retArr.push(item); else return undefined;//if we have at least one item not in cache - return undefined
+          const item = this.cacheGetItem(id); //console.log('cache get id',id,item, typeof item);
+          if(item) retArr.push(item); else if(item === undefined) return undefined;//if we have at least one item not in cache - return undefined
         }
-        return retArr;
+        return retArr.length ? retArr : null; //all IDs are known to be missing
       }
     }
 
@@ -295,13 +488,59 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
         if(this.cacheIndex.has(field as Extract<keyof T, string>)) {
           const fieldFilter:DB_FieldFilterOperator = (query.filter as any)[field];
           if(typeof fieldFilter !== 'object' || typeof fieldFilter._eq !== 'number' && typeof fieldFilter._eq !== 'string') continue;
-          const item = this.cacheGetByField(field as Extract<keyof T, string>, fieldFilter._eq);
-          if(item) return [item]; else return undefined;
+          const item = this.cacheGetItemByField(field as Extract<keyof T, string>, fieldFilter._eq);
+          if(item) return [item];
+          return item === null ? null : undefined; //null: not found before by this value, or all items are cached and none has it
         }
       }
     }
 
-    return undefined;
+    //if query.filter has _eq for all fields of some computed index (e.g. module+name) - use cacheGetByFields
+    if(query?.filter) {
+      const values:Record<string, unknown> = {};
+      for(const field in query.filter as any) values[field] = ((query.filter as any)[field] as DB_FieldFilterOperator)?._eq;
+      const item = this.cacheGetItemByFields(values);
+      //other conditions of the filter (`_neq`, `_and`, etc.) are checked on the found item
+      if(item && DB_LocalQuery.match(item as object, query.filter)) return [item];
+      if(item === null) return null;
+    }
+
+    //all items with the value of non-unique indexed field (if we loaded all of them before)
+    const byValue = this.cacheMultiIndexFilter(query);
+    if(byValue) {
+      const items = this.cacheGetAllByField(byValue[0], byValue[1]);
+      if(items) return DB_LocalQuery.paginate(DB_LocalQuery.sort(items, query.sort), query);
+    }
+
+    //results of the same query saved before
+    return this.cacheGetQuery(query);
+  }
+
+  /**
+   * field and value of the query that selects items only by one value of non-unique indexed field
+   * (like getByField() does), such queries could be answered by cacheGetAllByField()
+   */
+  private cacheMultiIndexFilter(query:I_DB_Query):[Extract<keyof T, string>, string|number]|undefined {
+    const fields = query?.filter ? Object.keys(query.filter) : [];
+    if(fields.length !== 1 || query.search || !this.cacheHasMultiIndex(fields[0])) return undefined;
+    const fieldFilter:DB_FieldFilterOperator = (query.filter as any)[fields[0]];
+    if(typeof fieldFilter !== 'object' || Object.keys(fieldFilter).length !== 1) return undefined;
+    if(typeof fieldFilter._eq !== 'number' && typeof fieldFilter._eq !== 'string') return undefined;
+    return [fields[0] as Extract<keyof T, string>, fieldFilter._eq];
+  }
+
+  /**
+   * reload the query in background (skipping cache) to refresh its stale items in cache,
+   * the same query is not reloaded twice at the same time
+   */
+  protected cacheRevalidate(query:I_DB_Query) {
+    const key = CacheBaseService.cacheQueryKey(query);
+    if(this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+    this.log(`${this.entityName}: revalidate stale cache`, DB_VerboseLevel.DEBUG, query);
+    this.query({...query, skipCache: true} as I_DB_Query<T>)
+      .catch(e => this.log(`${this.entityName}: cache revalidation failed`, DB_VerboseLevel.WARN, e))
+      .finally(() => this.revalidating.delete(key));
   }
 
   /**
@@ -313,18 +552,32 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
    */
   protected cacheSetQueryResult(query:I_DB_Query, result:T[]):void {
     //cycle existing items and store them in cache
-    result.forEach(item => this.cacheSet(item));
+    result.forEach(item => this.cacheSet(item, undefined, query?.fields as string[]|undefined));
 
     //ID FILTER: process empty results for entity ID requests (set nulls in cache)
     if(query?.filter && (query.filter as any)[this.idFieldName as string]) {    //if we have ID filter in query
       const idFilter = (query.filter as any)[this.idFieldName as string];      //get the ID filter to fast access
+      //only IDs that were not found (else null would replace the loaded item)
+      const found = new Set(result.map(item => String(item[this.idFieldName])));
+      const setNull = (id:DB_EntityID) => { if(!found.has(String(id))) this.cacheSetNullItem(id); };
       //for _eq single ID
       if(typeof idFilter === 'object' && idFilter._eq) {
-        this.cacheSetNullItem(idFilter._eq);
+        setNull(idFilter._eq);
       }
       //for _in array of IDs
       if(typeof idFilter === 'object' && idFilter._in && Array.isArray(idFilter._in)) {
-        idFilter._in.forEach((id:DB_EntityID) => this.cacheSetNullItem(id));
+        idFilter._in.forEach((id:DB_EntityID) => setNull(id));
+      }
+    }
+    //LISTS: save ordered IDs of other queries results
+    else {
+      this.cacheSetQuery(query, result);
+      //we got all items with the value of non-unique indexed field if they are less than the limit
+      const byValue = this.cacheMultiIndexFilter(query);
+      const all = query.limit === -1 || query.limit !== undefined && result.length < query.limit;
+      const fullItems = !query.fields || (query.fields as string[]).includes('*');
+      if(byValue && all && fullItems && !query.offset && !(query.page && query.page > 1)) {
+        this.cacheSetFieldComplete(byValue[0], byValue[1], result.map(item => item[this.idFieldName] as DB_EntityID));
       }
     }
   }
@@ -340,10 +593,52 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
   }
 
   async getById(id:DB_EntityID):Promise<T|null> {
+    if(this.batchGetById) return await this.getByIdBatched(id);
     const q = dbqb<T>().equal(this.idFieldName, id);
     return await this.queryOne(q);
   }
 
+  /** add the ID to the batch (first ID of the batch schedules its request) */
+  private getByIdBatched(id:DB_EntityID):Promise<T|null> {
+    const cached = this.cache ? this.cacheQuery(dbqb<T>().equal(this.idFieldName, id).q) : undefined;
+    if(cached !== undefined) return Promise.resolve(cached?.[0] ?? null); //null: we know there is no such item
+
+    return new Promise((resolve, reject) => {
+      if(!this.getByIdBatch) {
+        this.getByIdBatch = new Map();
+        const run = () => void this.getByIdBatchLoad(); //errors are given to the callers
+        if(typeof this.batchGetById === 'number') setTimeout(run, this.batchGetById);
+        else queueMicrotask(run);
+      }
+      const callers = this.getByIdBatch.get(id) ?? [];
+      callers.push({resolve, reject});
+      this.getByIdBatch.set(id, callers);
+    });
+  }
+
+  /** load the collected IDs and give each caller its item (or null, or the error if thrown) */
+  private async getByIdBatchLoad() {
+    const batch = this.getByIdBatch!;
+    this.getByIdBatch = undefined;
+    const ids = Array.from(batch.keys());
+    this.log(`${this.entityName}: batched getById of ${ids.length} IDs`, DB_VerboseLevel.DEBUG, ids);
+
+    const found = new Map<string, T>();
+    try {
+      for(let i = 0; i < ids.length; i += DB_EntityService_Base.BATCH_MAX_IDS) {
+        const part = ids.slice(i, i + DB_EntityService_Base.BATCH_MAX_IDS);
+        const items = part.length === 1
+          ? [await this.queryOne(dbqb<T>().equal(this.idFieldName, part[0]))]
+          : await this.getByIds(part);
+        for(const item of items) if(item) found.set(String(item[this.idFieldName]), item);
+      }
+    } catch(e) {
+      batch.forEach(callers => callers.forEach(c => c.reject(e)));
+      return;
+    }
+    batch.forEach((callers, id) => callers.forEach(c => c.resolve(found.get(String(id)) ?? null)));
+  }
+
   async getByField(field: Extract<keyof T, string>, value: string | number | null, fields?: Array<Extract<keyof T, string> | string>, limit?: number): Promise<T[]> {
     const qb = dbqb<T>();
     if (value === null) qb.isNull(field as Extract<keyof T, string>);
@@ -393,9 +688,154 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
     else return null;
   }
 
+  async queryPage(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<I_DB_QueryPage<T>> {
+    this.lastErrorReset();
+    const q = {...(query instanceof DB_Query ? query.q : query)} as I_DB_Query<T>;
+    if(!q.after && !q.cursorKey?.length) q.cursorKey = [this.idFieldName];
+    let keys:string[];
+    try { keys = DB_QueryCursor.keys(q)!; }
+    catch(e) {
+      this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} ${(e as Error).message}`,this.entityName,'',DB_ErrorLevel.ERROR, q.after));
+      return {items: [], cursor: null};
+    }
+
+    //values of the keys are needed in results to make the cursor
+    const fields = q.fields ?? this.defaultQuery.fields;
+    if(fields && !fields.includes('*')) {
+      q.fields = [...fields, ...keys.map(key => DB_QueryCursor.field(key)).filter(f => !(fields as string[]).includes(f))];
+    }
+
+    const items = await this.query(q);
+    const limit = q.limit ?? this.defaultQuery.limit;
+    const more = items.length > 0 && !this.hadError() && (limit === undefined || limit > 0 && items.length >= limit);
+    return {items, cursor: more ? DB_QueryCursor.encode(keys, items[items.length-1]) : null};
+  }
+
+  async *queryPages(query?:I_DB_Query<T>|DB_QueryBuilder<T>, options:I_DB_PageOptions = {}):AsyncGenerator<T[], void, undefined> {
+    const {pageSize = 100, cache = false} = options;
+    const base = {...(query instanceof DB_Query ? query.q : query), limit: pageSize, skipCache: true, skipCacheSave: !cache} as I_DB_Query<T>;
+    const cursor = base.after || base.cursorKey?.length;
+    const mode = options.mode ?? (!cursor && (base.sort ?? this.defaultQuery.sort)?.length ? 'offset' : 'keyset');
+    delete base.page; //pages are counted here (keys are removed, SDKs send undefined values as strings)
+
+    //keyset pages are requested after the cursor of the last loaded item (sorted by ID if no cursorKey)
+    let offset = base.offset ?? 0;
+    let after:string|null|undefined = base.after;
+    if(mode === 'keyset') delete base.offset;
+
+    for(;;) {
+      let page:T[];
+      if(mode === 'offset') page = await this.query({...base, offset});
+      else {
+        const res = await this.queryPage(after ? {...base, after} : base);
+        page = res.items; after = res.cursor;
+      }
+      if(page.length) yield page;
+      if(page.length < pageSize || this.hadError() || mode === 'keyset' && !after) return;
+      offset += page.length;
+    }
+  }
+
+  async *iterate(query?:I_DB_Query<T>|DB_QueryBuilder<T>, options?:I_DB_PageOptions):AsyncGenerator<T, void, undefined> {
+    for await (const page of this.queryPages(query, options)) yield* page;
+  }
+
+  async count(filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<number> {
+    return Number(await this.aggregateOne('count', '*', filter) ?? 0);
+  }
+
+  async sum(field:Extract<keyof T, string>|string, filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<number|null> {
+    const res = await this.aggregateOne('sum', field, filter);
+    return res === null ? null : Number(res);
+  }
+
+  async avg(field:Extract<keyof T, string>|string, filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<number|null> {
+    const res = await this.aggregateOne('avg', field, filter);
+    return res === null ? null : Number(res);
+  }
+
+  async min<TF extends string|number = number>(field:Extract<keyof T, string>|string, filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<TF|null> {
+    return await this.aggregateOne('min', field, filter) as TF|null;
+  }
+
+  async max<TF extends string|number = number>(field:Extract<keyof T, string>|string, filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<TF|null> {
+    return await this.aggregateOne('max', field, filter) as TF|null;
+  }
+
+  /** aggregate one field of all entities that match the filter */
+  private async aggregateOne(fn:keyof DB_Aggregate, field:string, filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<DB_AggregateValue> {
+    const q = dbqb<T>().aggregate(fn, field).limit(-1);
+    if(filter) q.filtersAdd(filter instanceof DB_Query ? filter.filtersGet() : filter as DB_Filter<T>);
+    const res = await this.aggregate(q);
+    return res[0]?.[fn]?.[field] ?? null;
+  }
+
+  /**
+   * request to the server in child classes, that is shared by concurrent identical queries
+   * if `dedupeQueries` is on: the first caller makes the request, others wait for it
+   * and get copies of its result (copied before the first caller gets it, so they are not changed by it)
+   * @param query final query that is sent to the server (compiled, after merge with defaultQuery)
+   * @param request makes the request
+   */
+  protected async dedupeRequest<R>(query:unknown, request:() => Promise<R>):Promise<R> {
+    if(!this.dedupeQueries) return await request();
+    const key = DB_EntityService_Base.queryFingerprint(query);
+    const joined = this.inFlight.get(key);
+    if(joined) {
+      this.log(`${this.entityName}: joined pending request`, DB_VerboseLevel.TRACE, query);
+      return await new Promise<R>((resolve, reject) => joined.push({resolve, reject}));
+    }
+
+    const callers:{resolve:(res:any) => void, reject:(e:unknown) => void}[] = [];
+    this.inFlight.set(key, callers);
+    let res:R;
+    try {
+      res = await request();
+    } catch(e) {
+      callers.forEach(c => c.reject(e));
+      throw e;
+    } finally {
+      this.inFlight.delete(key);
+    }
+    //copies the same way as cached items are cloned, so joined callers get the same kind of objects
+    callers.forEach(c => { try { c.resolve(CacheBaseService.cacheClone(res)); } catch(e) { c.reject(e); } });
+    return res;
+  }
+
+  /**
+   * convert cursor params of the query into sort and filter in child classes
+   * (after default query is merged, so its filter is kept)
+   * @return query or undefined (and error is set) if the cursor is invalid
+   */
+  protected resolveCursor<Q extends I_DB_Query<T>>(query:Q):Q|undefined {
+    try { return DB_QueryCursor.resolve(query); }
+    catch(e) {
+      this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} ${(e as Error).message}`,this.entityName,'',DB_ErrorLevel.ERROR, query.after));
+      return undefined;
+    }
+  }
+
+  /**
+   * prepare query for `aggregate()` in child classes:
+   * builder converted to generic query, filter of defaultQuery used if not set,
+   * all groups returned if limit not set (sort, fields, etc. of defaultQuery are not for aggregates)
+   * @return query or undefined (and error is set) if there are no aggregate functions
+   */
+  protected aggregateQuery(query:I_DB_Query<T>|DB_QueryBuilder<T>):I_DB_Query<T>|undefined {
+    if(query instanceof DB_Query) query = {...query.q} as I_DB_Query<T>;
+    query = {filter: this.defaultQuery.filter, limit: -1, ...query} as I_DB_Query<T>;
+    if(!query.aggregate || !Object.keys(query.aggregate).length) {
+      this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} aggregate functions are not set in the query`,this.entityName,'',DB_ErrorLevel.ERROR, query));
+      return undefined;
+    }
+    this.log(`aggregate ${this.entityName}: `, DB_VerboseLevel.DEBUG, query);
+    return query;
+  }
+
   // -- DB-specific functions --
   // that we can't implement here, but child classes should implement
   abstract query(query?:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<T[]>;
+  abstract aggregate<R extends object = DB_AggregateResult<T>>(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<R[]>;
   abstract add<TEA extends T|T[]>(entityOrArray:TEA,skipPostProcess:boolean):Promise<TEA|string>;
   abstract delete(id: DB_EntityID): Promise<boolean | string>;
   abstract deleteIds(ids: DB_EntityID[], limit?: number): Promise<boolean | string>;
@@ -403,7 +843,7 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
   abstract logout(): Promise<IsLoginStatus>;
   abstract update(updates: Partial<T>, id?: DB_EntityID): Promise<string | T>;
   abstract upsert(entityWithId: Partial<T>): Promise<string | T >;
-  abstract batchUpdate(updates: Partial<T>, ids: DB_EntityID[], skipPostProcess?: boolean): Promise<T[] | string>;
+  abstract batchUpdate(updates: Partial<T>, ids: DB_EntityID[]|I_DB_Query<T>|DB_QueryBuilder<T>, skipPostProcess?: boolean): Promise<T[] | string>;
 
   /**
    * Must be called in each implementation in query() function
@@ -412,7 +852,6 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
    *  - ask to load deep entities (if deepFields set)
    *  - cast types (if casterOpts set)
    *  - cache query results
-   *  - post process query results (like postLoadModifier)
    *
    * _This code same for all implementations, so we put it here_
    * @param query - query object that was used to get the data (or just ID if it was getById)
@@ -421,19 +860,20 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
    */
   protected async _query_post_process(query:I_DB_Query<T>|DB_EntityID, res:T[]) {
 
-    //cache saves each item to index even if no items were loaded (even if NO items it will set nulls to ids)
-    //need to store results (nulls) to cache to not ask server again
     if(typeof query !== 'object') query = dbqb<T>().equal(this.idFieldName, query).q;
-    if(this.cache) this.cacheSetQueryResult(query, res);
+    //with the fields that were asked (before deep fields removal), to find it in cache the same way
+    const fullFields = this._fullQueryFieldsArray;
+    const cacheQuery = this.cache && !query.skipCacheSave ? (fullFields ? {...query, fields: fullFields} : query) : undefined;
 
     //save last request time
     this.lastRequestTime = new Date();
 
-    //next processing is only for found items, so exit if no items
-    if(res.length===0) return;
+    //cache saves each item to index even if no items were loaded (even if NO items it will set nulls to ids)
+    //need to store results (nulls) to cache to not ask server again
+    if(res.length===0) { if(cacheQuery) this.cacheSetQueryResult(cacheQuery, res); return; }
 
     //if we have a request for nested items that are in deepFields - load them
-    if(this.deepFields) await this.loadDeepEntities(res, this._fullQueryFieldsArray);
+    if(this.deepFields) await this.loadDeepEntities(res, fullFields);
 
     //apply caster if set
     if(this.casterOpts) {
@@ -441,8 +881,11 @@ export abstract class DB_EntityService_Base<T extends Record<string, any>> exten
       this.log(`${this.entityName}: Caster applied to ${res.length} items`, DB_VerboseLevel.TRACE, this.casterOpts);
     }
 
-    //apply postLoadModifier if set
-    if(this.postLoadModifier) res.map(this.postLoadModifier);
+    //cache final items: partial ones are merged with cached values to new objects, they would miss changes made above
+    if(cacheQuery) this.cacheSetQueryResult(cacheQuery, res);
+
+    //items are final now, protect cached ones from changes by consumers (if `immutable` cache option is set)
+    if(this.cache) this.cacheRelease(res);
   }
 
 
@@ -1,5 +1,6 @@
 import {I_DB_EntityServiceBase} from './types/service-base.interface.js';
 import {
+    aggregate,
     authentication,
     AuthenticationData,
     AuthenticationMode,
@@ -26,7 +27,14 @@ import {
     IsLoginStatus
 } from './types/types.js';
 import {DB_BrokerService} from './broker.service.js';
-import {DB_Query, DB_QueryBuilder, I_DB_Query, I_DB_Query_Directus} from './types/query.type.js';
+import {
+    DB_Aggregate,
+    DB_AggregateResult,
+    DB_Query,
+    DB_QueryBuilder,
+    I_DB_Query,
+    I_DB_Query_Directus
+} from './types/query.type.js';
 import {DB_EntityService_Base} from './service-base.js';
 import {DB_EntityBase} from './types/db-entity-base.js';
 import {DB_Error, DB_ErrorLevel} from './types/db.error.js';
@@ -55,23 +63,24 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
    * @private
    */
   private async handleKnownErrors<R>(errStr: string, operation: () => Promise<R>): Promise<R> {
+    const err = errStr.toLowerCase(); //directus messages are capitalized: "Token expired.", "Too many requests..."
 
       // Check for server pressure or unavailable errors
     if (
-      errStr.includes('under pressure') ||
-      errStr.includes('unavailable') ||
-      errStr.includes('rate limit') ||
-      errStr.includes('too many requests')
+      err.includes('under pressure') ||
+      err.includes('unavailable') ||
+      err.includes('rate limit') ||
+      err.includes('too many requests')
     ) {
-      await new Promise(res => setTimeout(res, 5000));
+      await new Promise(res => setTimeout(res, DB_EntityServiceBase_Directus.RETRY_DELAY));
       return await operation();
     }
 
     // Check if the error is related to permissions, token, or credentials
     if (
-      errStr.includes('permission') ||
-      errStr.includes('token') ||
-      errStr.includes('Invalid user credentials')
+      err.includes('permission') ||
+      err.includes('token') ||
+      err.includes('invalid user credentials')
     ) {
       this.srvInfo.isLoggedIn = IsLoginStatus.ndef; // Reset login status
       const loginStatus = await this.login();
@@ -105,6 +114,9 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
   //for angular you should set this to 'cookies' to make it work
   public static AUTH_MODE:AuthenticationMode|'json'|'session'  = 'json';
 
+  //ms to wait before retry when server is under pressure or rate limit is exceeded
+  public static RETRY_DELAY = 5000;
+
   /**
    * make it static, because db-broker will need to log in server without creating
    * any entity instance
@@ -256,13 +268,19 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
   async query(query?:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<T[]> {
     let res:T[] = []; this.lastErrorReset();
 
-    //if we have a queryBuilder instance given - convert it to a directus query
-    if(query instanceof DB_Query) query = query.for(DBtype.directus);
+    //if we have a queryBuilder instance given - take its generic query
+    if(query instanceof DB_Query) query = {...query.q} as I_DB_Query<T>;
 
-    //merge default query with given query
-    query = {...this.defaultQuery, ...query} as I_DB_Query_Directus<T>;
+    //merge default query with given query, then resolve cursor pagination params
+    //(its filter is added to the filter of default query) and convert it to a directus query
+    query = this.resolveCursor({...this.defaultQuery, ...query} as I_DB_Query<T>);
+    if(!query) return [];
+    query = new DB_Query<T>(query).for(DBtype.directus);
     this.log(`query ${this.entityName}: `, DB_VerboseLevel.DEBUG, query);
 
+    //aggregated rows are not entities: no cache and no post-process for them
+    if(query.aggregate) return await this.operationDirect('aggregate')(query) as T[];
+
     //try to load from cache
     if(this.cache && !query?.skipCache) {
       const fromCache = this.cacheQuery(query);
@@ -287,8 +305,10 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
       if(this.srvInfo.isLoggedIn<0) { //maybe credentials still aren't loaded from config wait 2 sec and try again
         await new Promise(res=>setTimeout(res,2000)); await this.login();
       }
-      //try to read item:
-      res = await this.srvInfo.i?.request((readItemsFunction as any).call(this,query)) as unknown as T[];
+      //try to read item (concurrent identical queries could share one request):
+      res = await this.dedupeRequest(query, async () =>
+        await this.srvInfo.i?.request((readItemsFunction as any).call(this,query)) as unknown as T[]
+      );
     } catch (e) {
       const errStr = this.retErrorString(e);
       // Handle permission error and retry the operation if re-login is successful
@@ -327,6 +347,50 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
   }
 
 
+  async aggregate<R extends object = DB_AggregateResult<T>>(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<R[]> {
+    this.lastErrorReset();
+    const q = this.aggregateQuery(query);
+    if(!q) return [];
+
+    //only keys that directus knows, SDK sends all other keys as params too
+    const params = Object.fromEntries(Object.entries({
+      filter: q.filter, search: q.search, sort: q.sort, limit: q.limit, offset: q.offset, page: q.page,
+    }).filter(([, val]) => val !== undefined));
+    const request = async () => await this.srvInfo.i?.request(
+      aggregate<any, string, any>(this.entityName, {aggregate: q.aggregate as any, groupBy: q.group, query: params})
+    ) as unknown as Record<string, any>[];
+
+    let rows:Record<string, any>[]|undefined;
+    try {
+      if(this.srvInfo.isLoggedIn<=0 && this.haveCredentials()) await this.login();
+      rows = await request();
+    } catch (e) {
+      const errStr = this.retErrorString(e);
+      try {
+        rows = await this.handleKnownErrors<Record<string, any>[]>(errStr, request);
+      } catch (e2) {
+        this.log(`Aggregate error after re-login attempt: ${e2}`, DB_VerboseLevel.ERROR);
+      }
+    }
+
+    return (rows ?? []).map(row => DB_EntityServiceBase_Directus.aggregateRow(row, q.aggregate as DB_Aggregate)) as R[];
+  }
+
+  /**
+   * directus returns `count` of `*` as a scalar and big numbers as strings,
+   * make rows the same as other adaptors return: `{count: {'*': 5}, sum: {price: 100}}`
+   */
+  private static aggregateRow(row:Record<string, any>, agg:DB_Aggregate):Record<string, any> {
+    const res = {...row};
+    for(const fn in agg) {
+      const vals = res[fn] !== null && typeof res[fn] === 'object' ? res[fn] : {'*': res[fn]};
+      res[fn] = Object.fromEntries(Object.entries(vals).map(([field, val]) =>
+        [field, typeof val === 'string' && val !== '' && !isNaN(Number(val)) ? Number(val) : val]
+      ));
+    }
+    return res;
+  }
+
   //////////////////////////////////////////////////////////////////////////////
   //////////////////////////////////////////////////////////////////////////////
 
@@ -347,6 +411,8 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
     try {
       res = await this.srvInfo.i?.request(updateItem(this.entityName, id, updates)) as unknown as T;
     } catch(e) {  return this.retErrorString(e);   }
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({items: res ? [res] : []}); //other services of the entity update shared caches
 
     //base class standard post-process of query results
     if(res) await this._query_post_process( res[this.idFieldName] as any, [res] );
@@ -357,25 +423,34 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
 
   /**
    * Batch updates multiple entities.
-   * !!fut: we also can use a query instead of ids to faster apply value to query
    * @param updates Partial object containing the updates.
-   * @param ids Array of entity IDs to update.
+   * @param ids Array of entity IDs to update, or query to update matching items on the server (limit is required).
+   *    Cached items that match the query filter are removed from cache, updated ones are saved by post-process.
    * @param skipPostProcess Skip post-process after updating entities.
    * @throws DB_Error if something went wrong and `throwErrors` is true.
    * @return Updated entities or error string.
    */
-  async batchUpdate(updates: Partial<T>, ids: DB_EntityID[], skipPostProcess = false): Promise<T[] | string> {
+  async batchUpdate(updates: Partial<T>, ids: DB_EntityID[]|I_DB_Query<T>|DB_QueryBuilder<T>, skipPostProcess = false): Promise<T[] | string> {
     if (this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`, this.entityName, '', DB_ErrorLevel.WARNING));
     if(!ids) return this.retErrorString('No IDs given for batch update');
-    if(ids.length==0) return []; //empty array - nothing to update
+    if(Array.isArray(ids) && ids.length==0) return []; //empty array - nothing to update
+    if(!Array.isArray(ids) && !(ids instanceof DB_Query ? ids.q.limit : ids.limit)) return this.retErrorString('limit must be set in query for batch update');
     this.lastErrorReset();
 
+    //if we have a queryBuilder instance given - convert it to a directus query
+    const filter = Array.isArray(ids) ? undefined : ids instanceof DB_Query ? ids.q.filter : ids.filter;
+    const keysOrQuery = ids instanceof DB_Query ? ids.for(DBtype.directus) : ids;
+
     let tArr: T[];
     try {
-      tArr = await this.srvInfo.i?.request(updateItems(this.entityName, ids as string[], updates as Partial<UnpackList<T>>)) as unknown as T[];
+      tArr = await this.srvInfo.i?.request(updateItems(this.entityName, keysOrQuery as string[], updates as Partial<UnpackList<T>>)) as unknown as T[];
     } catch (e) {
       return this.retErrorString(e);
     }
+    if(this.cache && !Array.isArray(ids)) this.cacheDeleteByFilter(filter); //we don't know which cached items were updated
+    if(this.cache && Array.isArray(ids)) ids.forEach(id => this.cacheDelete(id)); //old values of updated items (post-process saves new ones)
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({filter: Array.isArray(ids) ? undefined : filter ?? {}, items: tArr ?? []}); //other services of the entity update shared caches
 
     // base class standard post-process of query results
     if (!skipPostProcess && tArr) for(const ent of tArr) await this._query_post_process(ent[this.idFieldName] as any, [ent]);
@@ -400,8 +475,10 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
     }
 
     //if we have error - try to add
-    if(!wasUpdatedOK) res = await this.add(entityWithId as T);
+    if(!wasUpdatedOK) res = await this.operationDirect('add')(entityWithId as T);
     if(typeof res === 'string') return res; //if error - return it
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({items: res ? [res] : []}); //other services of the entity update shared caches
 
     //base class standard post-process of query results
     if(res) await this._query_post_process( res[this.idFieldName] as any, [res] );
@@ -453,6 +530,9 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
       }
     }
 
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({items: tArr ?? []}); //other services of the entity update shared caches
+
     //base class standard post-process of query results
     if(!skipPostProcess && tArr && tArr.length) for( const ent of tArr) {
       //appy post process for each item id that we loaded
@@ -474,6 +554,8 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
     try {
       await this.srvInfo!.i!.request(deleteItem(this.entityName, id));
       if(this.cache) this.cacheDelete(id);
+      if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+      if(this.cache) this.cachePublish({ids: [id]}); //other services of the entity update shared caches
       return true;
     } catch (e) {
       return this.retErrorString(e);
@@ -491,6 +573,8 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
     try {
       await this.srvInfo!.i!.request(deleteItems(this.entityName, ids as any));
       if(this.cache) ids.forEach(id=>this.cacheDelete(id));
+      if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+      if(this.cache) this.cachePublish({ids}); //other services of the entity update shared caches
       return true;
     } catch (e) {
       return this.retErrorString(e);
@@ -503,13 +587,16 @@ abstract class DB_EntityServiceBase_Directus<T extends DB_EntityBase<object>|obj
     this.lastErrorReset();
 
     //if we have a queryBuilder instance given - convert it to a directus query
+    const filter = query instanceof DB_Query ? query.q.filter : query.filter;
     if(query instanceof DB_Query) query = query.for(DBtype.directus);
     this.log(`query ${this.entityName}: `, DB_VerboseLevel.DEBUG, query);
 
     //use deleteItems() function from directus SDK
     try {
       await this.srvInfo!.i!.request(deleteItems(this.entityName, query as any));
-      //if(this.cache) ids.forEach(id=>this.cacheDelete(id)); //TODO: remove from cache by query (need cache query function)
+      if(this.cache) this.cacheDeleteByFilter(filter); //all cache is cleared if the filter can't be evaluated locally
+      if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+      if(this.cache) this.cachePublish({filter: filter ?? {}}); //other services of the entity update shared caches
       return true;
     } catch (e) {
       return this.retErrorString(e);
@@ -0,0 +1,574 @@
+import { DB_BrokerService } from './broker.service.js';
+import { ITestEntity, TestMemoryEntityService } from './types/TestEntity.service.js';
+import { DBtype, IsLoginStatus } from './types/types.js';
+import { dbqb } from './types/query.type.js';
+import { DB_LocalQuery } from './utils/local-query.js';
+import { CacheBaseService } from './cache-base.service.js';
+import { DB_CacheBusInProcess, I_DB_CacheTransport } from './cache-bus.js';
+
+describe('DB_EntityServiceBase_Memory (@toopro/db)', () => {
+
+  let dbBroker:DB_BrokerService;
+  let service:TestMemoryEntityService;
+
+  beforeEach(async () => {
+    dbBroker = new DB_BrokerService();
+    dbBroker.upsertServer('local', {type: DBtype.memory, entities: ['test']});
+    service = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    await service.add([
+      {status: 'active',  value: 'Alpha one',   decimal: 10, nested: {field1: 'a'}},
+      {status: 'active',  value: 'beta two',    decimal: 20, nested: {field1: 'b'}},
+      {status: 'draft',   value: 'Gamma three', decimal: 30},
+      {status: 'archived',value: '',            decimal: 40},
+    ], false);
+  });
+
+  it('should login and logout without remote server', async () => {
+    expect(await service.login()).toBe(IsLoginStatus.yes);
+    expect(await service.logout()).toBe(IsLoginStatus.not);
+    expect(await service.checkLogin()).toBe(IsLoginStatus.yes);
+  });
+
+  it('should add items with auto IDs and get them by id', async () => {
+    const all = await service.getAll();
+    expect(all.map(i => i.id)).toEqual([1, 2, 3, 4]);
+    const item = await service.getById(2);
+    expect(item?.value).toBe('beta two');
+    expect(await service.getById(100)).toBeNull();
+    //same id can't be added twice
+    expect(typeof await service.add({id: 2, value: 'dup'}, false)).toBe('string');
+  });
+
+  it('should return copies so consumers do not change stored data', async () => {
+    const item = await service.getById(1);
+    item!.value = 'changed locally';
+    const again = await service.query(dbqb<ITestEntity>().equal('id', 1));
+    expect(again[0].value).toBe('Alpha one');
+  });
+
+  it('should evaluate filters, sort, limit and offset', async () => {
+    let res = await service.query(dbqb<ITestEntity>().equal('status', 'active').sort('-decimal'));
+    expect(res.map(i => i.decimal)).toEqual([20, 10]);
+
+    res = await service.query({filter: {_or: [{status: {_eq: 'draft'}}, {decimal: {_lt: 15}}]}, sort: ['id']});
+    expect(res.map(i => i.id)).toEqual([1, 3]);
+
+    res = await service.query({filter: {decimal: {_between: [15, 35]}, value: {_istarts_with: 'BETA'}}});
+    expect(res.map(i => i.id)).toEqual([2]);
+
+    res = await service.query({filter: {value: {_empty: true}}});
+    expect(res.map(i => i.id)).toEqual([4]);
+
+    res = await service.query(dbqb<ITestEntity>().equal<2>('nested.field1', 'b'));
+    expect(res.map(i => i.id)).toEqual([2]);
+
+    res = await service.query(dbqb<ITestEntity>().sort('id').limit(2).offset(1));
+    expect(res.map(i => i.id)).toEqual([2, 3]);
+
+    res = await service.query({search: 'gamma'});
+    expect(res.map(i => i.id)).toEqual([3]);
+
+    //null values are out of any range, as in SQL
+    await service.add({status: 'draft', value: 'no decimal', decimal: null as unknown as number});
+    res = await service.query(dbqb<ITestEntity>().less('decimal', 100).sort('id'));
+    expect(res.map(i => i.id)).toEqual([1, 2, 3, 4]);
+    res = await service.query(dbqb<ITestEntity>().lessOrEqual<2>('nested.field1', 'z'));
+    expect(res.map(i => i.id)).toEqual([1, 2]);
+  });
+
+  it('should return only requested fields', async () => {
+    const res = await service.query(dbqb<ITestEntity>().fields(['id', 'nested.field1']).equal('id', 1));
+    expect(res[0]).toEqual({id: 1, nested: {field1: 'a'}});
+  });
+
+  it('should apply field queries to nested arrays', () => {
+    const items = [{id: 1, children: [{id: 1}, {id: 2}, {id: 3}]}];
+    const res = DB_LocalQuery.run(items, {fieldQ: {children: {sort: ['-id'], limit: 2}}});
+    expect(res![0].children.map(c => c.id)).toEqual([3, 2]);
+    //geo filters can't be evaluated locally
+    expect(DB_LocalQuery.match(items[0], {id: {_intersects: 'POINT(1 1)'}})).toBeUndefined();
+  });
+
+  it('should load all items page by page', async () => {
+    const spy = jest.spyOn(service, 'query');
+    const ids:number[] = [];
+    for await (const item of service.iterate(undefined, {pageSize: 3})) ids.push(item.id as number);
+    expect(ids).toEqual([1, 2, 3, 4]);
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    const pages:number[][] = [];
+    for await (const page of service.queryPages(dbqb<ITestEntity>().sort('-decimal').limit(1), {pageSize: 2})) pages.push(page.map(i => i.decimal as number));
+    expect(pages).toEqual([[40, 30], [20, 10]]); //offset mode keeps the sort
+
+    service.defaultQuery = {filter: {status: {_eq: 'active'}}};
+    const items:ITestEntity[] = [];
+    for await (const item of service.iterate(dbqb<ITestEntity>().fields(['value']), {pageSize: 1})) items.push(item);
+    expect(items).toEqual([{id: 1, value: 'Alpha one'}, {id: 2, value: 'beta two'}]); //ID is added for keyset
+  });
+
+  it('should return cursors of keyset pages', async () => {
+    const first = await service.queryPage(dbqb<ITestEntity>().cursorKey(['status', '-id']).fields(['value']).limit(2));
+    expect(first.items).toEqual([{id: 2, status: 'active', value: 'beta two'}, {id: 1, status: 'active', value: 'Alpha one'}]);
+
+    await service.add({status: 'active', value: 'added', decimal: 50}, false); //before the cursor, so not in next pages
+    await service.delete(3);
+    const next = await service.queryPage(dbqb<ITestEntity>().after(first.cursor).limit(2));
+    expect(next.items.map(i => i.id)).toEqual([4]);
+    expect(next.cursor).toBeNull();
+
+    const all = await service.queryPage({});
+    expect(all.items.map(i => i.id)).toEqual([1, 2, 4, 5]); //sorted by ID without cursorKey
+
+    expect(await service.queryPage({after: 'broken'})).toEqual({items: [], cursor: null});
+    expect(service.lastError?.message).toContain('invalid query cursor');
+  });
+
+  it('should batch getById calls of concurrent callers', async () => {
+    service.batchGetById = true;
+    service.cacheEnable();
+    const spy = jest.spyOn(service, 'query');
+    const res = await Promise.all([service.getById(1), service.getById(2), service.getRealItem(2), service.getById(100)]);
+    expect(res.map(i => i?.value ?? null)).toEqual(['Alpha one', 'beta two', 'beta two', null]);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy.mock.calls[0][0]).toMatchObject({query: {filter: {id: {_in: [1, 2, 100]}}}});
+    expect(service.cacheGet(100)).toBeNull(); //missing IDs are cached as nulls
+
+    expect((await service.getById(1))?.value).toBe('Alpha one'); //from cache, no request
+    service.batchGetById = 5;
+    const [three, four] = await Promise.all([service.getById(3), new Promise(res => setTimeout(res, 1)).then(() => service.getById('4'))]);
+    expect([three?.id, four?.id]).toEqual([3, 4]);
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    spy.mockRejectedValueOnce(new Error('server is down')); //as with throwErrors
+    const failed = [service.getById(5), service.getById(6)];
+    for(const res of failed) await expect(res).rejects.toThrow('server is down');
+  });
+
+  it('should cache results of list queries till entities are changed', async () => {
+    let now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    service.cacheEnable([], 'id', 100, undefined, 50);
+    const spy = jest.spyOn(DB_LocalQuery, 'run');
+    const q = dbqb<ITestEntity>().equal('status', 'active').sort('-decimal');
+    const first = await service.query(q);
+    expect(first.map(i => i.id)).toEqual([2, 1]);
+    expect((await service.query({sort: ['-decimal'], filter: {status: {_eq: 'active'}}, limit: 100})).map(i => i.id)).toEqual([2, 1]);
+    expect(spy).toHaveBeenCalledTimes(1); //same query with other keys order is served from cache
+
+    await service.query(q.skipCache(true)); //cache flags are not a part of the query key
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    await service.update({status: 'draft'}, 2);
+    expect((await service.query(q.skipCache(false))).map(i => i.id)).toEqual([1]);
+    expect(spy).toHaveBeenCalledTimes(3);
+
+    now += 60; //TTL ends
+    await service.query(q);
+    expect(spy).toHaveBeenCalledTimes(4);
+
+    service.cacheEnable([], 'id', 100, undefined, 0); //lists are not cached
+    await service.query(q); await service.query(q);
+    expect(spy).toHaveBeenCalledTimes(6);
+    spy.mockRestore();
+    clock.mockRestore();
+  });
+
+  it('should expire cached items by TTL and revalidate stale ones in background', async () => {
+    let now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    service.cacheEnable({ttl: 40, nullTTL: 10});
+    const spy = jest.spyOn(DB_LocalQuery, 'run');
+    expect((await service.getById(1))?.value).toBe('Alpha one');
+    expect(await service.getById(100)).toBeNull();
+    await service.getById(1);
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(await service.getById(100)).toBeNull(); //missing item is known until nullTTL
+    expect(await service.query({filter: {id: {_in: [100]}}})).toEqual([]);
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    now += 20;
+    expect(service.cacheGet(100)).toBeUndefined(); //nulls have own TTL
+    expect(await service.getById(100)).toBeNull();
+    expect(spy).toHaveBeenCalledTimes(3);
+    expect(service.cacheGet(1)).not.toBeUndefined();
+    now += 30;
+    expect(service.cacheItemState(1)).toBe('expired');
+    await service.getById(1);
+    expect(spy).toHaveBeenCalledTimes(4);
+
+    service.cacheEnable({ttl: 10, staleWhileRevalidate: true});
+    await new TestMemoryEntityService(dbBroker).update({value: 'changed'}, 1); //by other service on the same server
+    now += 15;
+    expect((await service.getById(1))?.value).toBe('Alpha one'); //stale item without waiting
+    await new Promise(res => setTimeout(res, 5)); //reloaded in background
+    expect(spy).toHaveBeenCalledTimes(5);
+    expect((await service.getById(1))?.value).toBe('changed');
+    expect(spy).toHaveBeenCalledTimes(5);
+    spy.mockRestore();
+    clock.mockRestore();
+  });
+
+  it('should answer getByField from non-unique index when all items of the value are loaded', async () => {
+    service.cacheEnable({multiIndexBy: ['status']});
+    const spy = jest.spyOn(DB_LocalQuery, 'run');
+    await service.getByIds([1, 3]);
+    await service.getByField('status', 'active', undefined, 1); //limited, so we don't know all of them
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(service.cacheGetAllByField('status', 'active')).toBeUndefined();
+
+    expect((await service.getByField('status', 'active')).map(i => i.id)).toEqual([1, 2]);
+    expect((await service.getByField('status', 'active')).map(i => i.id)).toEqual([1, 2]);
+    expect((await service.query(dbqb<ITestEntity>().equal('status', 'active').sort('-id').limit(1))).map(i => i.id)).toEqual([2]);
+    expect(spy).toHaveBeenCalledTimes(3);
+
+    await service.getById(4);
+    service.cacheSet({...service.cacheGet(4)!, status: 'active'}); //item from other query joins the value
+    expect(service.cacheGetAllByField('status', 'active')?.map(i => i.id)).toEqual([1, 2, 4]);
+    await service.delete(1); //changes make values not complete
+    expect(service.cacheGetAllByField('status', 'active')).toBeUndefined();
+    spy.mockRestore();
+  });
+
+  it('should find items by computed indexes of several fields', async () => {
+    service.cacheEnable({computedIndexBy: ['status+value']});
+    const spy = jest.spyOn(DB_LocalQuery, 'run');
+    expect((await service.getOneByFields({status: 'active', value: 'beta two'}))?.id).toBe(2);
+    expect((await service.getOneByFields({value: 'beta two', status: 'active'}))?.id).toBe(2);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(service.cacheGetIndexInfo().byField.get('status+value' as keyof ITestEntity)).toEqual({'["active","beta two"]': 2});
+    expect(service.cacheGetByFields({status: 'active'})).toBeUndefined(); //all fields of the index are needed
+
+    await service.update({value: 'beta 2'}, 2);
+    expect(service.cacheGetByFields({status: 'active', value: 'beta two'})).toBeUndefined();
+    expect(service.cacheGetByFields({status: 'active', value: 'beta 2'})?.id).toBe(2);
+    spy.mockRestore();
+  });
+
+  it('should check other conditions of the filter on items found by computed indexes', async () => {
+    service.cacheEnable({computedIndexBy: ['status+value']});
+    await service.getOneByFields({status: 'active', value: 'beta two'});
+    const spy = jest.spyOn(DB_LocalQuery, 'run');
+    expect(await service.getOneByFields({status: 'active', value: 'beta two', decimal: 30})).toBeNull();
+    expect(await service.query({filter: {status: {_eq: 'active'}, value: {_eq: 'beta two'}, decimal: {_neq: 20}}})).toEqual([]);
+    expect(spy).toHaveBeenCalledTimes(2); //extra conditions don't match the cached item, so requests are made
+    expect(service.cacheGetByFields({status: 'active', value: 'beta two', decimal: 30})).toBeUndefined();
+    expect((await service.getOneByFields({status: 'active', value: 'beta two', decimal: 20}))?.id).toBe(2);
+    expect(spy).toHaveBeenCalledTimes(2);
+    spy.mockRestore();
+  });
+
+  it('should preload all items and answer cache misses without requests', async () => {
+    expect(typeof await service.cachePreload()).toBe('string'); //cache is not enabled
+    service.cacheEnable({indexBy: ['value'], multiIndexBy: ['status'], computedIndexBy: ['status+decimal']});
+    expect(await service.cachePreload({limit: 3})).toBe(4); //2 pages
+    expect(service.cacheIsComplete()).toBe(true);
+
+    const spy = jest.spyOn(DB_LocalQuery, 'run');
+    expect(await service.getById(100)).toBeNull();
+    expect((await service.getById('2'))?.id).toBe(2); //ID from URL
+    expect((await service.getByIds([1, 100])).map(i => i.id)).toEqual([1]);
+    expect(await service.query(dbqb<ITestEntity>().equal('value', 'unknown'))).toEqual([]);
+    expect(await service.getByField('status', 'deleted')).toEqual([]);
+    expect((await service.getByField('status', 'active')).map(i => i.id)).toEqual([1, 2]);
+    expect(await service.getOneByFields({status: 'active', decimal: 30})).toBeNull();
+    expect(spy).not.toHaveBeenCalled();
+
+    await service.delete(4); //deleted items are known
+    expect(await service.getById(4)).toBeNull();
+    expect(spy).not.toHaveBeenCalled();
+    service.cacheApplyChange({filter: {status: {_eq: 'draft'}}}); //items changed by others are not known
+    expect(service.cacheIsComplete()).toBe(false);
+    expect(await service.getById(100)).toBeNull();
+    expect(spy).toHaveBeenCalledTimes(1);
+    spy.mockRestore();
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const filtered = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    filtered.cacheEnable({maxItems: 1});
+    expect(await filtered.cachePreload(dbqb<ITestEntity>().equal('status', 'active'))).toBe(2);
+    expect(filtered.cacheIsComplete()).toBe(false);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('should preload entities of the server on login', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    service.cacheEnable();
+    dbBroker.cachePreloadOnLogin('local', ['test', 'unknown']);
+    expect(await dbBroker.waitForPreload('local')).toEqual({test: 4, unknown: 'no service of the entity'});
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    await service.logout();
+    service.cacheClear();
+    dbBroker.cachePreloadOnLogin('local', ['test']); //not logged in, so it waits for login
+    expect(service.cacheIsComplete()).toBe(false);
+    await service.login();
+    expect(await dbBroker.waitForPreload('local')).toEqual({test: 4});
+    expect(service.cacheIsComplete()).toBe(true);
+    warn.mockRestore();
+  });
+
+  it('should cache post-processed values of partial items merged with cached ones', async () => {
+    const raw = new TestMemoryEntityService(dbBroker, {casterOpts: undefined, errorsToConsole: false});
+    const added = await raw.add({value: 'raw', decimal: '50' as unknown as number}) as ITestEntity;
+    service.cacheEnable();
+    await service.query(dbqb<ITestEntity>().equal('id', added.id!).fields(['id', 'value']));
+    const res = await service.query(dbqb<ITestEntity>().equal('id', added.id!).fields(['id', 'decimal'])); //merged with cached fields
+    expect(res[0]).toEqual({id: added.id, decimal: 50});
+    expect(service.cacheGet(added.id!)).toEqual({id: added.id, value: 'raw', decimal: 50}); //cast as returned
+  });
+
+  it('should serve items from cache only when they have the requested fields', async () => {
+    service.cacheEnable();
+    const spy = jest.spyOn(DB_LocalQuery, 'run');
+    await service.query(dbqb<ITestEntity>().equal('id', 1).fields(['id']));
+    expect((await service.getById(1))?.value).toBe('Alpha one'); //not the skeleton from cache
+    await service.getById(1);
+    expect(spy).toHaveBeenCalledTimes(2);
+
+    await service.query(dbqb<ITestEntity>().equal('id', 2).fields(['id', 'value']));
+    await service.query(dbqb<ITestEntity>().equal('id', 2).fields(['id', 'decimal'])); //merged with cached fields
+    expect(spy).toHaveBeenCalledTimes(4);
+    expect(service.cacheGet(2)).toEqual({id: 2, value: 'beta two', decimal: 20});
+    expect(service.cacheHasFields(2, ['value', 'decimal'])).toBe(true);
+    expect(service.cacheHasFields(2)).toBe(false);
+    expect((await service.query(dbqb<ITestEntity>().equal('id', 2).fields(['value'])))[0].value).toBe('beta two');
+    expect(spy).toHaveBeenCalledTimes(4);
+
+    expect(CacheBaseService.cacheFieldCovers('*.*', 'value')).toBe(true);
+    expect(CacheBaseService.cacheFieldCovers('nested.*', 'nested.field1')).toBe(true);
+    expect(CacheBaseService.cacheFieldCovers('nested.field1', 'nested')).toBe(false);
+    expect(CacheBaseService.cacheFieldCovers('*', 'nested.field1')).toBe(false);
+    spy.mockRestore();
+  });
+
+  it('should evict least recently used items and clean cache by timer', async () => {
+    service.cacheEnable({indexBy: ['status'], maxItems: 2});
+    await service.getByIds([1, 2]);
+    service.cacheGet(1); //used after 2
+    await service.getById(3);
+    expect(service.cacheGet(2)).toBeUndefined();
+    expect(service.cacheGet(1)?.value).toBe('Alpha one');
+    expect(service.cacheGetIndexInfo().byField.get('status')).toEqual({draft: 3}); //'active' pointed to evicted 2
+
+    jest.useFakeTimers();
+    service.cacheEnable({maxItems: 2, ttl: 1000, recheckTimeout: 500});
+    jest.advanceTimersByTime(600);
+    expect(service.cacheGetIndexInfo().items.size).toBe(2);
+    jest.advanceTimersByTime(600); //items are expired
+    expect(service.cacheGetIndexInfo().items.size).toBe(0);
+    service.cacheMaintenanceStop();
+    expect(jest.getTimerCount()).toBe(0);
+    jest.useRealTimers();
+  });
+
+  it('should not flood the cache while iterating', async () => {
+    service.cacheEnable();
+    for await (const page of service.queryPages({}, {pageSize: 2})) expect(page.length).toBe(2);
+    expect(service.cacheGet(1)).toBeUndefined();
+    for await (const item of service.iterate({filter: {id: {_lt: 3}}}, {cache: true})) expect(item.id).toBeLessThan(3);
+    expect(service.cacheGet(1)?.value).toBe('Alpha one');
+  });
+
+  it('should aggregate and group values', async () => {
+    const res = await service.aggregate(dbqb<ITestEntity>().aggregate('count', '*').aggregate('avg', 'decimal').groupBy('status').sort('-count.*'));
+    expect(res).toEqual([
+      {status: 'active', count: {'*': 2}, avg: {decimal: 15}},
+      {status: 'draft', count: {'*': 1}, avg: {decimal: 30}},
+      {status: 'archived', count: {'*': 1}, avg: {decimal: 40}},
+    ]);
+    expect(await service.query({aggregate: {countDistinct: ['status']}})).toEqual([{countDistinct: {status: 3}}]);
+
+    expect(await service.count()).toBe(4);
+    expect(await service.count(dbqb<ITestEntity>().equal('status', 'active'))).toBe(2);
+    expect(await service.sum('decimal', {status: {_neq: 'archived'}})).toBe(60);
+    expect(await service.min('decimal')).toBe(10);
+    expect(await service.max<string>('value')).toBe('beta two');
+    expect(await service.avg('decimal', {status: {_eq: 'none'}})).toBeNull();
+
+    service.defaultQuery = {filter: {status: {_eq: 'active'}}, limit: 1};
+    expect(await service.count()).toBe(2); //only filter of the default query is used
+    expect(await service.aggregate({})).toEqual([]);
+    expect(service.lastError?.message).toContain('aggregate functions are not set');
+  });
+
+  it('should update, upsert and batch update', async () => {
+    const upd = await service.update({value: 'updated'}, 1);
+    if(typeof upd === 'string') throw new Error(upd);
+    expect(upd.value).toBe('updated');
+    expect(upd.decimal).toBe(10);
+
+    const ups = await service.upsert({id: 2, value: 'upserted'});
+    if(typeof ups === 'string') throw new Error(ups);
+    expect(ups.value).toBe('upserted');
+    const added = await service.upsert({value: 'new one'});
+    if(typeof added === 'string') throw new Error(added);
+    expect(added.id).toBe(5);
+
+    const batch = await service.batchUpdate({status: 'done'}, [1, 2, 100]);
+    if(typeof batch === 'string') throw new Error(batch);
+    expect(batch.map(i => i.id)).toEqual([1, 2]);
+    expect((await service.getByField('status', 'done')).length).toBe(2);
+
+    const byQuery = await service.batchUpdate({decimal: 0}, dbqb<ITestEntity>().equal('status', 'done').limit(1));
+    if(typeof byQuery === 'string') throw new Error(byQuery);
+    expect(byQuery.map(i => i.decimal)).toEqual([0]);
+    expect(typeof await service.batchUpdate({decimal: 0}, {filter: {status: {_eq: 'done'}}})).toBe('string'); //limit is required
+    expect(typeof await service.update({value: 'x'}, 100)).toBe('string');
+  });
+
+  it('should remove old values of items updated without post-process from cache', async () => {
+    service.cacheEnable();
+    await service.getAll();
+    await service.batchUpdate({value: 'by query'}, dbqb<ITestEntity>().equal('status', 'active').limit(10), true);
+    await service.batchUpdate({value: 'by ids'}, [3], true);
+    expect(service.cacheGet(1)).toBeUndefined();
+    expect(service.cacheGet(4)?.value).toBe(''); //not updated, so still cached
+    expect((await service.getById(1))?.value).toBe('by query');
+    expect((await service.getById(2))?.value).toBe('by query');
+    expect((await service.getById(3))?.value).toBe('by ids');
+  });
+
+  it('should delete items and keep cache in sync', async () => {
+    service.cacheEnable(['status']);
+    expect(await service.getById(1)).not.toBeNull();
+    expect(await service.delete(1)).toBe(true);
+    expect(await service.getById(1)).toBeNull();
+
+    expect(await service.deleteIds([2, 3])).toBe(true);
+    expect(typeof await service.deleteIds([1, 2, 3], 2)).toBe('string');
+
+    expect(typeof await service.batchDelete({filter: {status: {_eq: 'archived'}}})).toBe('string'); //limit is required
+    expect(await service.batchDelete(dbqb<ITestEntity>().equal('status', 'archived').limit(10))).toBe(true);
+    expect(await service.getAll()).toEqual([]);
+  });
+
+  it('should count cache lookups and evictions', async () => {
+    service.cacheEnable({indexBy: ['value'], maxItems: 2});
+    await service.getById(1);
+    await service.getById(1);
+    service.cacheGet(1);
+    service.cacheGet(50);
+    await service.getById(100);
+    service.cacheGet(100);
+    service.cacheGetByField('value', 'Alpha one');
+    await service.getById(2); //null of 100 is evicted (least recently used)
+
+    const stats = service.cacheStats();
+    expect(stats.lookups).toEqual({
+      cacheGet: {hits: 1, nullHits: 1, misses: 1},
+      cacheGetByField: {hits: 1, nullHits: 0, misses: 0},
+      cacheQuery: {hits: 1, nullHits: 0, misses: 3}, //lookups inside the query are not counted again
+    });
+    expect(stats).toMatchObject({hitRate: 0.5, evictions: 1, expirations: 0, items: 2, nulls: 0, maxItems: 2});
+    expect(stats.memory).toBeGreaterThan(0);
+
+    const other = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    other.cacheEnable();
+    other.cacheGet(1);
+    const all = dbBroker.cacheStats()['local:test'];
+    expect(all).toMatchObject({services: 2, items: 2, maxItems: 102, evictions: 1});
+    expect(all.lookups.cacheGet).toEqual({hits: 1, nullHits: 1, misses: 2});
+    expect(all.hitRate).toBeCloseTo(4 / 9);
+
+    service.cacheStatsReset();
+    expect(service.cacheStats()).toMatchObject({hitRate: 0, evictions: 0, items: 2});
+  });
+
+  it('should share cache changes between services of the entity', async () => {
+    const other = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    const own = new TestMemoryEntityService(dbBroker, {errorsToConsole: false});
+    service.cacheEnable({indexBy: ['value'], shared: true});
+    other.cacheEnable({shared: true});
+    own.cacheEnable(); //not shared
+    expect(dbBroker.cacheShared('local', 'test')).toEqual([service, other]);
+    await service.getAll();
+    await own.getById(1);
+
+    await other.update({value: 'changed'}, 1);
+    expect(service.cacheGet(1)?.value).toBe('changed');
+    expect(service.cacheGetByField('value', 'changed')?.id).toBe(1);
+    expect(own.cacheGet(1)?.value).toBe('Alpha one');
+    await other.deleteIds([2]);
+    expect(service.cacheGet(2)).toBeUndefined();
+    await other.add({value: 'new one'} as ITestEntity);
+    expect(service.cacheGet(5)?.value).toBe('new one');
+    expect((await service.getAll()).map(i => i.id)).toEqual([1, 3, 4, 5]); //cached list was invalidated
+
+    //other process (broker) gets changes by the transport (messages are sent as JSON)
+    const bus = new DB_CacheBusInProcess();
+    const transport:I_DB_CacheTransport = {
+      publish: message => bus.publish(JSON.parse(JSON.stringify(message))),
+      subscribe: listener => bus.subscribe(listener),
+    };
+    dbBroker.cacheUseTransport(transport);
+    const remoteBroker = new DB_BrokerService();
+    remoteBroker.upsertServer('local', {type: DBtype.memory, entities: ['test']});
+    remoteBroker.cacheUseTransport(transport);
+    const remote = new TestMemoryEntityService(remoteBroker, {errorsToConsole: false});
+    remote.cacheEnable({shared: true});
+    remote.cacheSet({id: 3, value: 'Gamma three'} as ITestEntity);
+    remote.cacheSet({id: 4, value: '', decimal: 40} as ITestEntity);
+    await service.update({decimal: 0}, 4);
+    await service.delete(3);
+    expect(remote.cacheGet(3)).toBeUndefined();
+    expect(remote.cacheGet(4)?.decimal).toBe(0);
+    expect(other.cacheGet(4)?.decimal).toBe(0);
+
+    other.cacheUnshare();
+    expect(dbBroker.cacheShared('local', 'test')).toEqual([service]);
+    await service.update({value: 'not shared'}, 4);
+    expect(other.cacheGet(4)?.value).toBe('');
+  });
+
+  it('should not modify data in readonly mode', async () => {
+    const ro = new TestMemoryEntityService(dbBroker, {readonly: true, errorsToConsole: false});
+    expect(typeof await ro.add({value: 'x'}, false)).toBe('string');
+    expect((await ro.getAll()).length).toBe(4); //but shares the same server data
+  });
+
+  it('should run operations through middleware of the broker and the service', async () => {
+    const calls:string[] = [];
+    const errors:unknown[] = [];
+    dbBroker.use(async (ctx, next) => {
+      calls.push(`${ctx.server}:${ctx.entity} ${ctx.operation}`);
+      try { return await next(); }
+      finally { if(ctx.error) errors.push(ctx.error); }
+    });
+    service.use(
+      async (ctx, next) => { //change the input
+        if(ctx.operation === 'query') ctx.query = {...ctx.query, filter: {...ctx.query?.filter, status: {_eq: 'active'}}};
+        if(ctx.operation === 'add') ctx.payload = {...ctx.payload as ITestEntity, status: 'new'};
+        return await next();
+      },
+      async (ctx, next) => { //short-circuit and transform the output
+        if(ctx.operation === 'delete' && ctx.ids === 1) return 'protected item';
+        const res = await next();
+        return ctx.operation === 'query' ? (res as ITestEntity[]).map(i => ({...i, value: i.value?.toUpperCase()})) : res;
+      },
+    );
+
+    expect((await service.getAll()).map(i => i.value)).toEqual(['ALPHA ONE', 'BETA TWO']);
+    expect(await service.getById(3)).toBeNull(); //filtered by middleware
+    expect((await service.add({value: 'added'}, false) as ITestEntity).status).toBe('new');
+    expect(await service.delete(1)).toBe('protected item');
+    expect(await service.delete(2)).toBe(true);
+    expect(typeof await service.update({value: 'x'}, 100)).toBe('string');
+    expect(calls).toEqual(['local:test query', 'local:test query', 'local:test add', 'local:test delete', 'local:test delete', 'local:test update']);
+    expect(errors).toHaveLength(1);
+    expect(service.lastError).toBe(errors[0]);
+
+    //operations called inside other operations don't run middleware again
+    calls.length = 0;
+    expect((await service.upsert({id: 4, value: 'upserted'}) as ITestEntity).value).toBe('upserted');
+    expect((await service.upsert({value: 'added by upsert'}) as ITestEntity).status).toBeUndefined(); //not changed as `add`
+    await service.query(dbqb<ITestEntity>().aggregate('count', '*'));
+    expect(calls).toEqual(['local:test upsert', 'local:test upsert', 'local:test query']);
+
+    const other = new TestMemoryEntityService(dbBroker, {errorsToConsole: false, throwErrors: true});
+    await expect(other.deleteIds([1, 3, 4], 2)).rejects.toThrow();
+    expect(errors).toHaveLength(2); //thrown errors are observed too
+    expect((await other.getByIds([1, 3])).map(i => i.value)).toEqual(['Alpha one', 'Gamma three']); //no service middleware
+  });
+
+});
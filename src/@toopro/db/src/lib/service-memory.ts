@@ -0,0 +1,344 @@
+import {I_DB_EntityServiceBase} from './types/service-base.interface.js';
+import {
+    DB_Credentials,
+    DB_EntityID,
+    DB_MemoryStore,
+    DB_ServerInfo_Memory,
+    DB_VerboseLevel,
+    DBtype,
+    IsLoginStatus
+} from './types/types.js';
+import {DB_BrokerService} from './broker.service.js';
+import {DB_AggregateResult, DB_Query, DB_QueryBuilder, I_DB_Query} from './types/query.type.js';
+import {DB_EntityService_Base} from './service-base.js';
+import {DB_EntityBase} from './types/db-entity-base.js';
+import {DB_Error, DB_ErrorLevel} from './types/db.error.js';
+import {DB_EntityService_Options} from './types/service-options.interface.js';
+import {DB_LocalQuery} from './utils/local-query.js';
+
+/**
+ * In-memory implementation of the DB_EntityServiceBase.
+ * All collections are stored in the `srvInfo.i` object (DB_MemoryStore) of the server,
+ * so all services of the same server share the same data, as with the real DB.
+ *
+ * Used in tests (no network needed) and for offline work,
+ * your entity services can work with it without changes in the code,
+ * just register the server with `type: DBtype.memory` in the broker.
+ *
+ * Each entity returned from the service is a copy, so changes made
+ * by consumers are not saved until update() is called.
+ *
+ * @example
+ * dbBroker.upsertServer('local', {type: DBtype.memory, entities: ['product']});
+ * class ProductService extends DB_EntityServiceBase_Memory<IProduct> {
+ *   constructor(db:DB_BrokerService) { super('local:product', db); }
+ * }
+ */
+abstract class DB_EntityServiceBase_Memory<T extends DB_EntityBase<object>|object> extends DB_EntityService_Base<T> implements I_DB_EntityServiceBase<T> {
+
+  /**
+   * server info used for this entity,
+   * `srvInfo.i` is the store with all collections of this server
+   */
+  declare srvInfo:DB_ServerInfo_Memory;
+
+  /**
+   * @param entityName
+   * @param dbBroker
+   * @param options config verbosity level, error throw policy, etc
+   * @protected
+   */
+  protected constructor(entityName:string, dbBroker:DB_BrokerService, options?:DB_EntityService_Options) {
+    super(entityName, dbBroker, options);//init base class (save server from broker and login)
+    if(!this.srvInfo.type) this.srvInfo.type = DBtype.memory; //the server 'memory' type must be set
+    if(!this.srvInfo.loginFunction) this.srvInfo.loginFunction = DB_EntityServiceBase_Memory.loginToServer as any;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // SERVER IMPLEMENTATION FUNCTIONS
+
+  /**
+   * there is nothing to connect to, so login just creates
+   * the store for the server collections (if not created yet)
+   * and saves credentials to know who is "logged in".
+   * @param toServer
+   * @param credentials
+   */
+  static override async loginToServer(toServer:DB_ServerInfo_Memory, credentials?:DB_Credentials):Promise<IsLoginStatus> {
+    const srv = toServer;  if(!srv) return IsLoginStatus.error;
+    if(srv.isLoggedIn > IsLoginStatus.ndef) return srv.isLoggedIn;
+
+    //if credentials given in arguments - save them to srv object (same as other adaptors do)
+    if(credentials) {
+      if(credentials.password && (srv.login!==credentials.login || srv.password!==credentials.password)) {
+        srv.login = credentials.login;
+        srv.password = credentials.password;
+      }
+      if(credentials.token && srv.token !== credentials.token) srv.token = credentials.token;
+    }
+
+    //create the store for all collections of the server
+    if(!srv.i) srv.i = {collections:{}, lastIds:{}};
+    if(!srv.user) srv.user = {id: srv.login ?? 'memory', token: srv.token ?? null};
+
+    srv.broker.upsertServer(srv.name, {isLoggedIn:IsLoginStatus.yes});
+    return srv.isLoggedIn;
+  }
+
+  async logout():Promise<IsLoginStatus> {
+    this.lastErrorReset();
+    if(this.srvInfo.isLoggedIn>IsLoginStatus.ndef) this.updateSrv({isLoggedIn: IsLoginStatus.not});
+    return this.srvInfo.isLoggedIn;
+  }
+
+  /**
+   * rows of the current entity collection (created on first access)
+   * @protected
+   */
+  protected get rows():Map<string, Record<string, any>> {
+    if(!this.srvInfo.i) this.srvInfo.i = {collections:{}, lastIds:{}} as DB_MemoryStore;
+    const store = this.srvInfo.i;
+    if(!store.collections[this.entityName]) store.collections[this.entityName] = new Map();
+    return store.collections[this.entityName];
+  }
+
+  /**
+   * generate next numeric ID for the collection
+   * (continue from the max numeric ID if there are rows added with IDs)
+   * @private
+   */
+  private nextId():number {
+    const store = this.srvInfo.i!;
+    if(store.lastIds[this.entityName] === undefined) {
+      const numIds = Array.from(this.rows.keys()).map(Number).filter(n => !isNaN(n));
+      store.lastIds[this.entityName] = numIds.length ? Math.max(...numIds) : 0;
+    }
+    return ++store.lastIds[this.entityName];
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // ENTITY QUERY FUNCTIONS
+
+  async query(query?:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<T[]> {
+    this.lastErrorReset();
+
+    //memory adaptor works with generic query syntax, so just take the query object
+    if(query instanceof DB_Query) query = {...query.q} as I_DB_Query<T>;
+
+    //merge default query with given query
+    query = {...this.defaultQuery, ...query} as I_DB_Query<T>;
+    this.log(`query ${this.entityName}: `, DB_VerboseLevel.DEBUG, query);
+
+    //cursor pagination params to generic sort and filter
+    query = this.resolveCursor(query);
+    if(!query) return [];
+
+    //aggregated rows are not entities: no cache and no post-process for them
+    if(query.aggregate) return await this.operationDirect('aggregate')(query) as T[];
+
+    //try to load from cache
+    if(this.cache && !query?.skipCache) {
+      const fromCache = this.cacheQuery(query);
+      if(fromCache !== undefined) {
+          this.log(`DB Srvc query ${this.entityName} from cache: `, DB_VerboseLevel.DEBUG, fromCache);
+          return fromCache??[]; //if res is null the empty array will be returned
+      }
+    }
+
+    //remove deep fields from a query (they are on another server)
+    //the original fields are stored in private _fullQueryFieldsArray
+    if(query.fields && this.deepFields) {
+      query.fields = this.removeConfiguredDeepFields(query.fields);
+    } else this._fullQueryFieldsArray = undefined;
+
+    await this.checkLogin();
+    const found = DB_LocalQuery.run(Array.from(this.rows.values()) as T[], query);
+    if(!found) {
+      this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} filter can't be evaluated by memory adaptor`,this.entityName,'',DB_ErrorLevel.ERROR, query.filter));
+      return [];
+    }
+    const res = found.map(item => structuredClone(item));
+
+    //base class standard post-process of query results
+    await this._query_post_process(query, res);
+
+    return res;
+  }
+
+  async aggregate<R extends object = DB_AggregateResult<T>>(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<R[]> {
+    this.lastErrorReset();
+    const q = this.aggregateQuery(query);
+    if(!q) return [];
+    await this.checkLogin();
+    const res = DB_LocalQuery.aggregate(Array.from(this.rows.values()) as T[], q);
+    if(!res) {
+      this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} filter can't be evaluated by memory adaptor`,this.entityName,'',DB_ErrorLevel.ERROR, q.filter));
+      return [];
+    }
+    return structuredClone(res) as R[];
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  //////////////////////////////////////////////////////////////////////////////
+
+  async update(updates:Partial<T>, id?:DB_EntityID):Promise<T|string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    this.lastErrorReset(); await this.checkLogin();
+
+    //if we have id in updates, remote it from there
+    const upd = {...updates};
+    if(upd[this.idFieldName]) {
+      id = upd[this.idFieldName] as DB_EntityID;
+      delete upd[this.idFieldName];
+    }
+    if(!id) return this.retErrorString('No ID in updates given');
+
+    const row = this.rows.get(String(id));
+    if(!row) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} item ${id} not found`,this.entityName,'',DB_ErrorLevel.ERROR));
+    Object.assign(row, structuredClone(upd));
+    const res = structuredClone(row) as T;
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({items: [res]}); //other services of the entity update shared caches
+
+    //base class standard post-process of query results
+    await this._query_post_process( res[this.idFieldName] as any, [res] );
+    return res;
+  }
+
+  /**
+   * Batch updates multiple entities, IDs that are not found are skipped.
+   * @param updates Partial object containing the updates.
+   * @param ids Array of entity IDs to update, or query to update matching items (limit is required).
+   * @param skipPostProcess Skip post-process after updating entities.
+   * @return Updated entities or error string.
+   */
+  async batchUpdate(updates: Partial<T>, ids: DB_EntityID[]|I_DB_Query<T>|DB_QueryBuilder<T>, skipPostProcess = false): Promise<T[] | string> {
+    if (this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`, this.entityName, '', DB_ErrorLevel.WARNING));
+    if(!ids) return this.retErrorString('No IDs given for batch update');
+    if(!Array.isArray(ids)) {
+      const found = await this.findIds(ids, 'update');
+      if(typeof found === 'string') return found;
+      ids = found;
+    }
+    if(ids.length==0) return []; //empty array - nothing to update
+    this.lastErrorReset(); await this.checkLogin();
+
+    const upd = {...updates};
+    delete upd[this.idFieldName];
+    const tArr:T[] = [];
+    for(const id of ids) {
+      const row = this.rows.get(String(id));
+      if(!row) continue;
+      Object.assign(row, structuredClone(upd));
+      tArr.push(structuredClone(row) as T);
+    }
+    if(this.cache) ids.forEach(id => this.cacheDelete(id)); //old values of updated items (post-process saves new ones)
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({items: tArr}); //other services of the entity update shared caches
+
+    // base class standard post-process of query results
+    if (!skipPostProcess) for(const ent of tArr) await this._query_post_process(ent[this.idFieldName] as any, [ent]);
+    return tArr;
+  }
+
+  //----------------------------------------------------------------------------
+
+  async upsert(entityWithId:Partial<T>):Promise<T|string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    this.lastErrorReset(); await this.checkLogin();
+
+    const id = entityWithId[this.idFieldName] as DB_EntityID;
+    if(id && this.rows.has(String(id))) return await this.operationDirect('update')(entityWithId, id);
+    else return await this.operationDirect('add')(entityWithId as T);
+  }
+
+  //----------------------------------------------------------------------------
+
+  async add<TEA extends T|T[]>(entityOrArray:TEA, skipPostProcess=false):Promise<TEA|string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    this.lastErrorReset(); await this.checkLogin();
+
+    //prepare all rows first, so nothing is saved if one of them has an error
+    const entities = (Array.isArray(entityOrArray) ? entityOrArray : [entityOrArray]) as T[];
+    const prepared = new Map<string, Record<string, any>>();
+    for(const ent of entities) {
+      const row = structuredClone(ent) as Record<string, any>;
+      if(row[this.idFieldName] === undefined || row[this.idFieldName] === null) row[this.idFieldName] = this.nextId();
+      const key = String(row[this.idFieldName]);
+      if(this.rows.has(key) || prepared.has(key))
+        return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} item ${key} already exists`,this.entityName,this.idFieldName,DB_ErrorLevel.ERROR));
+      prepared.set(key, row);
+    }
+    prepared.forEach((row, key) => this.rows.set(key, row));
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    const tArr = Array.from(prepared.values()).map(row => structuredClone(row) as T);
+    if(this.cache) this.cachePublish({items: tArr}); //other services of the entity update shared caches
+
+    //base class standard post-process of query results
+    if(!skipPostProcess) for(const ent of tArr) await this._query_post_process( ent[this.idFieldName] as unknown as DB_EntityID, [ent] );
+
+    //return single entity if single entity was given, else return array
+    return (Array.isArray(entityOrArray) ? tArr : tArr[0]) as TEA;
+  }
+
+  //----------------------------------------------------------------------------
+
+  async delete(id:DB_EntityID):Promise<boolean|string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    this.lastErrorReset(); await this.checkLogin();
+
+    if(!this.rows.delete(String(id))) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} item ${id} not found`,this.entityName,'',DB_ErrorLevel.ERROR));
+    if(this.cache) this.cacheDelete(id);
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({ids: [id]}); //other services of the entity update shared caches
+    return true;
+  }
+
+  //----------------------------------------------------------------------------
+
+  async deleteIds(ids: DB_EntityID[], limit = 10): Promise<boolean | string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    if(ids.length>limit) return this.retErrorString(`Can't delete more than ${limit} items at once`);
+    this.lastErrorReset(); await this.checkLogin();
+
+    ids.forEach(id => this.rows.delete(String(id)));
+    if(this.cache) ids.forEach(id=>this.cacheDelete(id));
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({ids}); //other services of the entity update shared caches
+    return true;
+  }
+
+  async batchDelete(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<boolean|string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    const found = await this.findIds(query, 'delete');
+    if(typeof found === 'string') return found;
+    for(const id of found) {
+      this.rows.delete(String(id));
+      if(this.cache) this.cacheDelete(id);
+    }
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({ids: found}); //other services of the entity update shared caches
+    return true;
+  }
+
+  /**
+   * IDs of items for batch operation by query (using only filter related part of the query)
+   * @return IDs or error string (limit is not set, filter can't be evaluated)
+   */
+  private async findIds(query:I_DB_Query<T>|DB_QueryBuilder<T>, operation:'update'|'delete'):Promise<DB_EntityID[]|string> {
+    const q:I_DB_Query<T> = query instanceof DB_Query ? {...query.q} : {...query as I_DB_Query<T>};
+    if(!q.limit) return this.retErrorString(`limit must be set in query for batch ${operation}`);
+    this.lastErrorReset(); await this.checkLogin();
+    this.log(`batch ${operation} ${this.entityName}: `, DB_VerboseLevel.DEBUG, q);
+
+    const found = DB_LocalQuery.run(Array.from(this.rows.values()) as T[], {filter:q.filter, search:q.search, sort:q.sort, limit:q.limit, offset:q.offset});
+    if(!found) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} filter can't be evaluated by memory adaptor`,this.entityName,'',DB_ErrorLevel.ERROR, q.filter));
+    return found.map(item => (item as Record<string, any>)[this.idFieldName] as DB_EntityID);
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  //////////////////////////////////////////////////////////////////////////////
+}
+
+export { DB_EntityServiceBase_Memory };
+export default DB_EntityServiceBase_Memory;
@@ -0,0 +1,164 @@
+import initSqlJs from 'sql.js';
+import { DB_BrokerService } from './broker.service.js';
+import { ITestEntity, TestMySQLEntityService } from './types/TestEntity.service.js';
+import { DBtype, IsLoginStatus } from './types/types.js';
+import { dbqb } from './types/query.type.js';
+import { DB_SqlCompiler } from './sql/sql-compiler.js';
+import { DB_SqlDialect_MySQL } from './sql/dialect-mysql.js';
+import { DB_ServerInfo_SQL, DB_SqlConnection } from './sql/sql.types.js';
+import { DB_EntityServiceBase_SQLite } from './service-sqlite.js';
+
+/**
+ * embedded SQL engine for the specs (sqlite compiled to wasm),
+ * it understands the MySQL statements we generate (backticks, `?` placeholders)
+ * except JSON functions and LIKE BINARY, so they are checked on compiled SQL only
+ */
+async function embeddedConnection():Promise<DB_SqlConnection> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run('CREATE TABLE `test` (`id` INTEGER PRIMARY KEY AUTOINCREMENT, `date_created` TEXT, `status` TEXT, `value` TEXT, `decimal` REAL, `nested` TEXT)');
+  return DB_EntityServiceBase_SQLite.fromSqlJs(db);
+}
+
+/** stubbed pool of `mysql2` driver (optional dependency), results are set by the specs */
+const pool = {query: jest.fn(), end: jest.fn()};
+const createPool = jest.fn(() => pool);
+jest.mock('mysql2/promise', () => ({createPool}), {virtual: true});
+
+describe('DB_EntityServiceBase_MySQL (@toopro/db)', () => {
+
+  let dbBroker:DB_BrokerService;
+  let service:TestMySQLEntityService;
+
+  beforeEach(async () => {
+    dbBroker = new DB_BrokerService();
+    dbBroker.upsertServer('sql', {type: DBtype.mysql, url: '', entities: ['test']});
+    dbBroker.getServerByEntity('test')!.i = await embeddedConnection();
+    service = new TestMySQLEntityService(dbBroker, {errorsToConsole: false});
+    await service.add([
+      {status: 'active',  value: 'Alpha one',   decimal: 10},
+      {status: 'active',  value: 'beta two',    decimal: 20},
+      {status: 'draft',   value: 'Gamma three', decimal: 30},
+      {status: 'archived',value: '100%_done',   decimal: 40},
+    ], false);
+  });
+
+  it('should compile queries to parameterized MySQL', () => {
+    const c = new DB_SqlCompiler(DB_SqlDialect_MySQL);
+    expect(c.select('test', {
+      fields: ['id', 'nested.field1'],
+      filter: {_or: [{status: {_eq: 'a'}}, {'nested.field1': {_contains: 'x'}}], decimal: {_in: [1, 2]}},
+      sort: ['-decimal', 'id'], limit: 10, page: 3,
+    })).toEqual({
+      sql: 'SELECT `id`, `nested` FROM `test` WHERE (`status` = ? OR JSON_UNQUOTE(JSON_EXTRACT(`nested`, ?)) LIKE BINARY ? ESCAPE \'!\')'
+        + ' AND `decimal` IN (?, ?) ORDER BY `decimal` DESC, `id` ASC LIMIT 10 OFFSET 20',
+      params: ['a', '$."field1"', '%x%', 1, 2],
+    });
+    expect(c.select('test', {aggregate: {count: ['*'], sumDistinct: ['decimal']}, group: ['status'], offset: 5}).sql)
+      .toBe('SELECT `status`, COUNT(*) AS `count:*`, SUM(DISTINCT `decimal`) AS `sumDistinct:decimal` FROM `test` GROUP BY `status` LIMIT 18446744073709551615 OFFSET 5');
+    expect(c.select('te`st', {filter: {status: {_eq: '\'; DROP TABLE test; --'}}}).sql).toBe('SELECT * FROM `te``st` WHERE `status` = ?');
+    expect(() => c.select('test', {filter: {status: {_regex: 'x'} as any}})).toThrow();
+  });
+
+  it('should wrap mysql2 pool to the connection', async () => {
+    const srv = dbBroker.getServerByEntity('test') as DB_ServerInfo_SQL;
+    srv.login = 'user';
+    srv.options = {pool: {connectionLimit: 2}};
+    const conn = await TestMySQLEntityService.connect(srv);
+    expect(createPool).toHaveBeenCalledWith({uri: undefined, user: 'user', password: undefined, connectionLimit: 2});
+
+    pool.query.mockResolvedValueOnce([[{id: 1}, {id: 2}], []]);
+    expect(await conn.execute('SELECT * FROM `test` WHERE `id` > ?', [0])).toEqual({rows: [{id: 1}, {id: 2}]});
+    expect(pool.query).toHaveBeenCalledWith('SELECT * FROM `test` WHERE `id` > ?', [0]);
+
+    pool.query.mockResolvedValueOnce([{affectedRows: 1, insertId: 5}, undefined]);
+    expect(await conn.execute('INSERT INTO `test` (`value`) VALUES (?)', ['x'])).toEqual({rows: [], affectedRows: 1, insertId: 5});
+    pool.query.mockResolvedValueOnce([{affectedRows: 2, insertId: 0}, undefined]); //no auto increment ID
+    expect(await conn.execute('DELETE FROM `test`', [])).toEqual({rows: [], affectedRows: 2, insertId: undefined});
+
+    await conn.close?.();
+    expect(pool.end).toHaveBeenCalled();
+  });
+
+  it('should login with the given connection', async () => {
+    expect(await service.login()).toBe(IsLoginStatus.yes);
+    expect(await service.logout()).toBe(IsLoginStatus.not);
+  });
+
+  it('should add items with auto IDs and query them', async () => {
+    expect((await service.getAll()).map(i => i.id)).toEqual([1, 2, 3, 4]);
+    expect((await service.getById(2))?.value).toBe('beta two');
+    expect(await service.getById(100)).toBeNull();
+
+    let res = await service.query(dbqb<ITestEntity>().equal('status', 'active').sort('-decimal'));
+    expect(res.map(i => i.decimal)).toEqual([20, 10]);
+
+    res = await service.query({filter: {_or: [{status: {_eq: 'draft'}}, {decimal: {_lt: 15}}]}, sort: ['id']});
+    expect(res.map(i => i.id)).toEqual([1, 3]);
+
+    res = await service.query({filter: {value: {_icontains: '%_'}}});
+    expect(res.map(i => i.id)).toEqual([4]);
+
+    res = await service.query(dbqb<ITestEntity>().sort('id').limit(2).offset(1));
+    expect(res.map(i => i.id)).toEqual([2, 3]);
+
+    res = await service.query(dbqb<ITestEntity>().fields(['id', 'value']).equal('id', 1));
+    expect(res[0]).toEqual({id: 1, value: 'Alpha one'});
+
+    expect(await service.query({search: 'gamma'})).toEqual([]); //no searchFields set
+    service.searchFields = ['value'];
+    expect((await service.query({search: 'gamma'})).map(i => i.id)).toEqual([3]);
+  });
+
+  it('should return aggregated rows', async () => {
+    const res = await service.query({aggregate: {count: ['*'], sum: ['decimal']}, group: ['status'], sort: ['status']}) as any[];
+    expect(res).toEqual([
+      {status: 'active', count: {'*': 2}, sum: {decimal: 30}},
+      {status: 'archived', count: {'*': 1}, sum: {decimal: 40}},
+      {status: 'draft', count: {'*': 1}, sum: {decimal: 30}},
+    ]);
+  });
+
+  it('should update, upsert and batch update', async () => {
+    const upd = await service.update({value: 'updated'}, 1);
+    if(typeof upd === 'string') throw new Error(upd);
+    expect(upd.value).toBe('updated');
+    expect(upd.decimal).toBe(10);
+
+    const ups = await service.upsert({id: 2, value: 'upserted'});
+    if(typeof ups === 'string') throw new Error(ups);
+    expect(ups.value).toBe('upserted');
+    const added = await service.upsert({value: 'new one'});
+    if(typeof added === 'string') throw new Error(added);
+    expect(added.id).toBe(5);
+
+    const batch = await service.batchUpdate({status: 'done'}, [1, 2, 100]);
+    if(typeof batch === 'string') throw new Error(batch);
+    expect(batch.map(i => i.id)).toEqual([1, 2]);
+    expect((await service.getByField('status', 'done')).length).toBe(2);
+    expect(typeof await service.update({value: 'x'}, 100)).toBe('string');
+  });
+
+  it('should delete items and keep cache in sync', async () => {
+    service.cacheEnable(['status']);
+    expect(await service.getById(1)).not.toBeNull();
+    expect(await service.delete(1)).toBe(true);
+    expect(await service.getById(1)).toBeNull();
+    expect(typeof await service.delete(1)).toBe('string');
+
+    expect(await service.deleteIds([2, 3])).toBe(true);
+    expect(typeof await service.deleteIds([1, 2, 3], 2)).toBe('string');
+
+    expect(typeof await service.batchDelete({filter: {status: {_eq: 'archived'}}})).toBe('string'); //limit is required
+    expect(await service.batchDelete(dbqb<ITestEntity>().equal('status', 'archived').limit(10))).toBe(true);
+    expect(await service.getAll()).toEqual([]);
+  });
+
+  it('should return SQL errors as error strings', async () => {
+    expect(await service.query({filter: {missing_column: {_eq: 1}}})).toEqual([]);
+    expect(service.lastError?.message).toContain('missing_column');
+    const ro = new TestMySQLEntityService(dbBroker, {readonly: true, errorsToConsole: false});
+    expect(typeof await ro.add({value: 'x'}, false)).toBe('string');
+  });
+
+});
@@ -0,0 +1,98 @@
+import {DB_Credentials, DBtype, IsLoginStatus} from './types/types.js';
+import {DB_BrokerService} from './broker.service.js';
+import {DB_EntityServiceBase_SQL} from './service-sql.js';
+import {DB_EntityBase} from './types/db-entity-base.js';
+import {DB_EntityService_Options} from './types/service-options.interface.js';
+import {DB_ServerInfo_SQL, DB_SqlConnection, DB_SqlResult} from './sql/sql.types.js';
+import {DB_SqlCompiler} from './sql/sql-compiler.js';
+import {DB_SqlDialect_MySQL} from './sql/dialect-mysql.js';
+
+/**
+ * MySQL (and MariaDB) implementation of the DB_EntityServiceBase.
+ * Uses `mysql2` package (optional dependency, loaded on login),
+ * or any DB_SqlConnection you put to `srvInfo.i` before login.
+ *
+ * @example
+ * dbBroker.upsertServer('shop', {type: DBtype.mysql, url: 'mysql://localhost:3306/shop',
+ *   login: 'user', password: 'pass', entities: ['product']});
+ * class ProductService extends DB_EntityServiceBase_MySQL<IProduct> {
+ *   constructor(db:DB_BrokerService) { super('shop:product', db); }
+ * }
+ */
+abstract class DB_EntityServiceBase_MySQL<T extends DB_EntityBase<object>|object> extends DB_EntityServiceBase_SQL<T> {
+
+  protected readonly compiler = new DB_SqlCompiler(DB_SqlDialect_MySQL);
+
+  /**
+   * @param entityName
+   * @param dbBroker
+   * @param options config verbosity level, error throw policy, etc
+   * @protected
+   */
+  protected constructor(entityName:string, dbBroker:DB_BrokerService, options?:DB_EntityService_Options) {
+    super(entityName, dbBroker, options);//init base class (save server from broker and login)
+    if(!this.srvInfo.type) this.srvInfo.type = DBtype.mysql; //the server 'mysql' type must be set
+    if(!this.srvInfo.loginFunction) this.srvInfo.loginFunction = DB_EntityServiceBase_MySQL.loginToServer as any;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // SERVER IMPLEMENTATION FUNCTIONS
+
+  /**
+   * create connection pool (if `srv.i` is not set yet) and check it with simple query
+   * @param toServer
+   * @param credentials
+   */
+  static override async loginToServer(toServer:DB_ServerInfo_SQL, credentials?:DB_Credentials):Promise<IsLoginStatus> {
+    const srv = toServer;  if(!srv) return IsLoginStatus.error;
+    if(srv.isLoggedIn > IsLoginStatus.ndef) return srv.isLoggedIn;
+
+    //if credentials given in arguments - save them to srv object
+    if(credentials) {
+      if(credentials.password && (srv.login!==credentials.login || srv.password!==credentials.password)) {
+        srv.login = credentials.login;
+        srv.password = credentials.password;
+      }
+      if(credentials.url) srv.url = credentials.url;
+    }
+
+    srv.broker.upsertServer(srv.name, {isLoggedIn:IsLoginStatus.waiting});
+    try {
+      if(!srv.i) srv.i = await DB_EntityServiceBase_MySQL.connect(srv);
+      await srv.i.execute('SELECT 1', []);
+      if(!srv.user) srv.user = {id: srv.login};
+      srv.broker.upsertServer(srv.name, {isLoggedIn:IsLoginStatus.yes});
+    } catch (e) {
+      console.error('login error:', e);
+      srv.broker.upsertServer(srv.name, {isLoggedIn:IsLoginStatus.not});
+    }
+    return srv.isLoggedIn;
+  }
+
+  /**
+   * create mysql2 pool and wrap it to DB_SqlConnection,
+   * `srv.options.pool` is passed to the pool config as is
+   * @param srv
+   */
+  static async connect(srv:DB_ServerInfo_SQL):Promise<DB_SqlConnection> {
+    const driver = 'mysql2/promise'; //optional dependency, not needed if you give your own connection
+    const mysql = await import(driver);
+    const pool = mysql.createPool({
+      uri: srv.url || undefined,
+      user: srv.login,
+      password: srv.password ?? undefined,
+      ...srv.options?.['pool'],
+    });
+    return {
+      execute: async (sql, params):Promise<DB_SqlResult> => {
+        const [res] = await pool.query(sql, params);
+        if(Array.isArray(res)) return {rows: res};
+        return {rows: [], affectedRows: res.affectedRows, insertId: res.insertId || undefined};
+      },
+      close: () => pool.end(),
+    };
+  }
+}
+
+export { DB_EntityServiceBase_MySQL };
+export default DB_EntityServiceBase_MySQL;
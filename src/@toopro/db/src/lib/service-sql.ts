@@ -0,0 +1,355 @@
+import {I_DB_EntityServiceBase} from './types/service-base.interface.js';
+import {DB_EntityID, DB_VerboseLevel, IsLoginStatus} from './types/types.js';
+import {DB_BrokerService} from './broker.service.js';
+import {DB_AggregateResult, DB_Filter, DB_Query, DB_QueryBuilder, I_DB_Query} from './types/query.type.js';
+import {DB_EntityService_Base} from './service-base.js';
+import {DB_EntityBase} from './types/db-entity-base.js';
+import {DB_Error, DB_ErrorLevel} from './types/db.error.js';
+import {DB_EntityService_Options} from './types/service-options.interface.js';
+import {DB_ServerInfo_SQL, DB_SqlResult, I_DB_SqlStatement} from './sql/sql.types.js';
+import {DB_SqlCompiler} from './sql/sql-compiler.js';
+
+/**
+ * Base class for SQL databases implementation of the DB_EntityServiceBase.
+ * Entity name is used as the table name, generic queries are compiled
+ * to parameterized SQL by the `compiler` of the concrete adaptor (MySQL, SQLite, ...).
+ *
+ * `srvInfo.i` of the SQL server is the DB_SqlConnection,
+ * so any driver could be used behind it.
+ *
+ * Relations are not loaded by SQL adaptors (fieldQ is ignored),
+ * use deepFields config of the service to load them from other services.
+ */
+abstract class DB_EntityServiceBase_SQL<T extends DB_EntityBase<object>|object> extends DB_EntityService_Base<T> implements I_DB_EntityServiceBase<T> {
+
+  /**
+   * server info used for this entity,
+   * `srvInfo.i` is the connection to the DB
+   */
+  declare srvInfo:DB_ServerInfo_SQL;
+
+  /** compiles generic queries to the SQL of the DB engine */
+  protected abstract readonly compiler:DB_SqlCompiler;
+
+  /** columns to search in when query has `search` string */
+  searchFields?:string[];
+
+  /** columns with JSON stored as text, they are parsed when loaded */
+  jsonFields?:string[];
+
+  /**
+   * @param entityName
+   * @param dbBroker
+   * @param options config verbosity level, error throw policy, etc
+   * @protected
+   */
+  protected constructor(entityName:string, dbBroker:DB_BrokerService, options?:DB_EntityService_Options) {
+    super(entityName, dbBroker, options);//init base class (save server from broker and login)
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // SERVER IMPLEMENTATION FUNCTIONS
+
+  /**
+   * connection stays open (it could be shared by other services of the server),
+   * we only mark server as logged out
+   */
+  async logout():Promise<IsLoginStatus> {
+    this.lastErrorReset();
+    if(this.srvInfo.isLoggedIn>IsLoginStatus.ndef) this.updateSrv({isLoggedIn: IsLoginStatus.not});
+    return this.srvInfo.isLoggedIn;
+  }
+
+  /**
+   * execute compiled statement with the server connection
+   * @protected
+   */
+  protected async execute(stmt:I_DB_SqlStatement):Promise<DB_SqlResult> {
+    await this.checkLogin();
+    if(!this.srvInfo.i) throw new DB_Error(`[tps/db] server ${this.srvInfo.name} has no connection`,this.entityName,'',DB_ErrorLevel.CRITICAL);
+    this.log(`sql ${this.entityName}: ${stmt.sql}`, DB_VerboseLevel.TRACE, stmt.params);
+    return await this.srvInfo.i.execute(stmt.sql, stmt.params);
+  }
+
+  /**
+   * convert driver errors (their message is not enumerable) to DB_Error
+   * @protected
+   */
+  protected sqlError(e:unknown):DB_Error {
+    if(e instanceof DB_Error) return e;
+    return new DB_Error(`[tps/db] ${this.entityName}: ${(e as Error)?.message ?? e}`,this.entityName,'',DB_ErrorLevel.ERROR, e);
+  }
+
+  /** load rows by ids (used to return saved entities) */
+  protected async selectByIds(ids:DB_EntityID[]):Promise<T[]> {
+    if(!ids.length) return [];
+    const res = await this.execute(this.compiler.select(this.entityName, {filter: this.idsFilter(ids)}));
+    return this.decodeRows(res.rows);
+  }
+
+  /** parse JSON columns of the loaded rows */
+  protected decodeRows(rows:Record<string, any>[]):T[] {
+    if(this.jsonFields?.length) for(const row of rows) for(const f of this.jsonFields) {
+      if(typeof row[f] === 'string') try { row[f] = JSON.parse(row[f]); } catch { /* not a JSON - keep as is */ }
+    }
+    return rows as T[];
+  }
+
+  /**
+   * ID for the new entity added without ID,
+   * undefined means that DB generates it (auto increment)
+   */
+  protected generateId():DB_EntityID|undefined { return undefined; }
+
+  protected idsFilter(ids:DB_EntityID[]):DB_Filter<any> {
+    return {[this.idFieldName]: ids.length === 1 ? {_eq: ids[0]} : {_in: ids}};
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // ENTITY QUERY FUNCTIONS
+
+  async query(query?:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<T[]> {
+    this.lastErrorReset();
+
+    //sql adaptors work with generic query syntax, so just take the query object
+    if(query instanceof DB_Query) query = {...query.q} as I_DB_Query<T>;
+
+    //merge default query with given query
+    query = {...this.defaultQuery, ...query} as I_DB_Query<T>;
+    this.log(`query ${this.entityName}: `, DB_VerboseLevel.DEBUG, query);
+
+    //cursor pagination params to generic sort and filter
+    query = this.resolveCursor(query);
+    if(!query) return [];
+
+    //aggregated rows are not entities: no cache and no post-process for them
+    if(query.aggregate) return await this.operationDirect('aggregate')(query) as T[];
+
+    //try to load from cache
+    if(this.cache && !query?.skipCache) {
+      const fromCache = this.cacheQuery(query);
+      if(fromCache !== undefined) {
+          this.log(`DB Srvc query ${this.entityName} from cache: `, DB_VerboseLevel.DEBUG, fromCache);
+          return fromCache??[]; //if res is null the empty array will be returned
+      }
+    }
+
+    //remove deep fields from a query (they are on another server)
+    //the original fields are stored in private _fullQueryFieldsArray
+    if(query.fields && this.deepFields) {
+      query.fields = this.removeConfiguredDeepFields(query.fields);
+    } else this._fullQueryFieldsArray = undefined;
+
+    let res:T[];
+    try {
+      const stmt = this.compiler.select(this.entityName, query, this.searchFields);
+      res = this.decodeRows((await this.dedupeRequest(stmt, () => this.execute(stmt))).rows);
+    } catch(e) { this.retErrorString(this.sqlError(e)); return []; }
+
+    //base class standard post-process of query results
+    await this._query_post_process(query, res);
+
+    return res;
+  }
+
+  async aggregate<R extends object = DB_AggregateResult<T>>(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<R[]> {
+    this.lastErrorReset();
+    const q = this.aggregateQuery(query);
+    if(!q) return [];
+    try {
+      const agg = await this.execute(this.compiler.select(this.entityName, q, this.searchFields));
+      return agg.rows.map(row => DB_SqlCompiler.aggregateRow(row)) as R[];
+    } catch(e) { this.retErrorString(this.sqlError(e)); return []; }
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  //////////////////////////////////////////////////////////////////////////////
+
+  async update(updates:Partial<T>, id?:DB_EntityID):Promise<T|string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    this.lastErrorReset();
+
+    //if we have id in updates, remote it from there
+    const upd = {...updates};
+    if(upd[this.idFieldName]) {
+      id = upd[this.idFieldName] as DB_EntityID;
+      delete upd[this.idFieldName];
+    }
+    if(!id) return this.retErrorString('No ID in updates given');
+
+    let res:T|undefined;
+    try {
+      await this.execute(this.compiler.update(this.entityName, upd, this.idsFilter([id])));
+      res = (await this.selectByIds([id]))[0];
+    } catch(e) { return this.retErrorString(this.sqlError(e)); }
+    if(!res) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} item ${id} not found`,this.entityName,'',DB_ErrorLevel.ERROR));
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({items: [res]}); //other services of the entity update shared caches
+
+    //base class standard post-process of query results
+    await this._query_post_process( res[this.idFieldName] as any, [res] );
+    return res;
+  }
+
+  /**
+   * Batch updates multiple entities with one UPDATE statement,
+   * IDs that are not found are skipped.
+   * @param updates Partial object containing the updates.
+   * @param ids Array of entity IDs to update, or query to update matching rows
+   *    (IDs are selected first with the query limit, it's required).
+   * @param skipPostProcess Skip post-process after updating entities.
+   * @return Updated entities or error string.
+   */
+  async batchUpdate(updates: Partial<T>, ids: DB_EntityID[]|I_DB_Query<T>|DB_QueryBuilder<T>, skipPostProcess = false): Promise<T[] | string> {
+    if (this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`, this.entityName, '', DB_ErrorLevel.WARNING));
+    if(!ids) return this.retErrorString('No IDs given for batch update');
+    if(!Array.isArray(ids)) {
+      const found = await this.findIds(ids, 'update');
+      if(typeof found === 'string') return found;
+      ids = found;
+    }
+    if(ids.length==0) return []; //empty array - nothing to update
+    this.lastErrorReset();
+
+    const upd = {...updates};
+    delete upd[this.idFieldName];
+    let tArr:T[];
+    try {
+      await this.execute(this.compiler.update(this.entityName, upd, this.idsFilter(ids)));
+      tArr = await this.selectByIds(ids);
+    } catch(e) { return this.retErrorString(this.sqlError(e)); }
+    if(this.cache) ids.forEach(id => this.cacheDelete(id)); //old values of updated items (post-process saves new ones)
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({items: tArr}); //other services of the entity update shared caches
+
+    // base class standard post-process of query results
+    if (!skipPostProcess) for(const ent of tArr) await this._query_post_process(ent[this.idFieldName] as any, [ent]);
+    return tArr;
+  }
+
+  //----------------------------------------------------------------------------
+
+  async upsert(entityWithId:Partial<T>):Promise<T|string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    this.lastErrorReset();
+
+    const id = entityWithId[this.idFieldName] as DB_EntityID;
+    let exists = false;
+    try { if(id) exists = (await this.selectByIds([id])).length > 0; }
+    catch(e) { return this.retErrorString(this.sqlError(e)); }
+
+    if(exists) return await this.operationDirect('update')(entityWithId, id);
+    else return await this.operationDirect('add')(entityWithId as T);
+  }
+
+  //----------------------------------------------------------------------------
+
+  /**
+   * insert entities one by one (so auto generated IDs are known for each one),
+   * each saved row is read back to return values set by DB (defaults, triggers)
+   */
+  async add<TEA extends T|T[]>(entityOrArray:TEA, skipPostProcess=false):Promise<TEA|string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    this.lastErrorReset();
+
+    const entities = (Array.isArray(entityOrArray) ? entityOrArray : [entityOrArray]) as T[];
+    const tArr:T[] = [];
+    try {
+      for(const ent of entities) {
+        let row = ent as Record<string, any>;
+        if(row[this.idFieldName] === undefined || row[this.idFieldName] === null) {
+          const newId = this.generateId();
+          if(newId !== undefined) row = {...row, [this.idFieldName]: newId};
+        }
+        const res = await this.execute(this.compiler.insert(this.entityName, row));
+        const id = (row[this.idFieldName] ?? res.insertId) as DB_EntityID|undefined;
+        const saved = id !== undefined && id !== null ? (await this.selectByIds([id]))[0] : undefined;
+        tArr.push(saved ?? {...ent});
+      }
+    } catch(e) { return this.retErrorString(this.sqlError(e)); }
+    finally { //cached lists could be changed (also by rows saved before an error)
+      if(this.cache) this.cacheInvalidateQueries();
+      if(this.cache) this.cachePublish({items: tArr});
+    }
+
+    //base class standard post-process of query results
+    if(!skipPostProcess) for(const ent of tArr) await this._query_post_process( ent[this.idFieldName] as unknown as DB_EntityID, [ent] );
+
+    //return single entity if single entity was given, else return array
+    return (Array.isArray(entityOrArray) ? tArr : tArr[0]) as TEA;
+  }
+
+  //----------------------------------------------------------------------------
+
+  async delete(id:DB_EntityID):Promise<boolean|string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    this.lastErrorReset();
+
+    let res:DB_SqlResult;
+    try { res = await this.execute(this.compiler.delete(this.entityName, this.idsFilter([id]))); }
+    catch(e) { return this.retErrorString(this.sqlError(e)); }
+    if(this.cache) this.cacheDelete(id);
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({ids: [id]}); //other services of the entity update shared caches
+    if(res.affectedRows === 0) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} item ${id} not found`,this.entityName,'',DB_ErrorLevel.ERROR));
+    return true;
+  }
+
+  //----------------------------------------------------------------------------
+
+  async deleteIds(ids: DB_EntityID[], limit = 10): Promise<boolean | string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    if(ids.length>limit) return this.retErrorString(`Can't delete more than ${limit} items at once`);
+    if(!ids.length) return true;
+    this.lastErrorReset();
+
+    try { await this.execute(this.compiler.delete(this.entityName, this.idsFilter(ids))); }
+    catch(e) { return this.retErrorString(this.sqlError(e)); }
+    if(this.cache) ids.forEach(id=>this.cacheDelete(id));
+    if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+    if(this.cache) this.cachePublish({ids}); //other services of the entity update shared caches
+    return true;
+  }
+
+  /**
+   * IDs of matching rows are selected first (with limit),
+   * then rows are deleted by these IDs, so we know what to remove from cache
+   */
+  async batchDelete(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<boolean|string> {
+    if(this.readonly) return this.retErrorString(new DB_Error(`[tps/db] ${this.entityName} is readonly`,this.entityName,'',DB_ErrorLevel.WARNING));
+    const ids = await this.findIds(query, 'delete');
+    if(typeof ids === 'string') return ids;
+    if(!ids.length) return true;
+
+    try {
+      await this.execute(this.compiler.delete(this.entityName, this.idsFilter(ids)));
+      if(this.cache) ids.forEach(id=>this.cacheDelete(id));
+      if(this.cache) this.cacheInvalidateQueries(); //cached lists could be changed
+      if(this.cache) this.cachePublish({ids}); //other services of the entity update shared caches
+    } catch(e) { return this.retErrorString(this.sqlError(e)); }
+    return true;
+  }
+
+  /**
+   * IDs of rows for batch operation by query (using only filter related part of the query)
+   * @return IDs or error string (limit is not set, SQL error)
+   */
+  private async findIds(query:I_DB_Query<T>|DB_QueryBuilder<T>, operation:'update'|'delete'):Promise<DB_EntityID[]|string> {
+    const q:I_DB_Query<T> = query instanceof DB_Query ? {...query.q} : {...query as I_DB_Query<T>};
+    if(!q.limit) return this.retErrorString(`limit must be set in query for batch ${operation}`);
+    this.lastErrorReset();
+    this.log(`batch ${operation} ${this.entityName}: `, DB_VerboseLevel.DEBUG, q);
+
+    try {
+      const found = await this.execute(this.compiler.select(this.entityName,
+        {fields:[this.idFieldName], filter:q.filter, search:q.search, sort:q.sort, limit:q.limit, offset:q.offset}, this.searchFields));
+      return found.rows.map(row => row[this.idFieldName] as DB_EntityID);
+    } catch(e) { return this.retErrorString(this.sqlError(e)); }
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  //////////////////////////////////////////////////////////////////////////////
+}
+
+export { DB_EntityServiceBase_SQL };
+export default DB_EntityServiceBase_SQL;
@@ -0,0 +1,139 @@
+import initSqlJs from 'sql.js';
+import { DB_BrokerService } from './broker.service.js';
+import { ITestEntity, TestSQLiteEntityService } from './types/TestEntity.service.js';
+import { DBtype, IsLoginStatus } from './types/types.js';
+import { dbqb } from './types/query.type.js';
+import { DB_EntityServiceBase_SQLite } from './service-sqlite.js';
+import { DB_SqlConnection } from './sql/sql.types.js';
+
+describe('DB_EntityServiceBase_SQLite (@toopro/db)', () => {
+
+  let dbBroker:DB_BrokerService;
+  let service:TestSQLiteEntityService;
+
+  /** new broker with sqlite server in memory, `table` is the DDL of the test table */
+  async function initServer(table:string) {
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    db.run(table);
+    dbBroker = new DB_BrokerService();
+    dbBroker.upsertServer('lite', {type: DBtype.sqlite, url: '', entities: ['test']});
+    dbBroker.getServerByEntity('test')!.i = DB_EntityServiceBase_SQLite.fromSqlJs(db);
+  }
+
+  beforeEach(async () => {
+    await initServer('CREATE TABLE "test" ("id" INTEGER PRIMARY KEY, "status" TEXT, "value" TEXT, "decimal" REAL, "nested" TEXT)');
+    service = new TestSQLiteEntityService(dbBroker, {errorsToConsole: false});
+    await service.add([
+      {status: 'active',  value: 'Alpha one',   decimal: 10, nested: {field1: 'a'}},
+      {status: 'active',  value: 'beta two',    decimal: 20, nested: {field1: 'b'}},
+      {status: 'draft',   value: 'Gamma three', decimal: 30},
+      {status: 'archived',value: '',            decimal: 40},
+    ], false);
+  });
+
+  it('should login to the server of sqlite type', async () => {
+    expect(dbBroker.getServerByEntity('test')!.loginFunction).toBe(DB_EntityServiceBase_SQLite.loginToServer);
+    expect(await service.login()).toBe(IsLoginStatus.yes);
+    expect(await service.logout()).toBe(IsLoginStatus.not);
+  });
+
+  it('should map rowids to entity IDs and query them', async () => {
+    expect((await service.getAll()).map(i => i.id)).toEqual([1, 2, 3, 4]);
+    expect(await service.getById(2)).toEqual({id: 2, status: 'active', value: 'beta two', decimal: 20, nested: {field1: 'b'}});
+
+    let res = await service.query(dbqb<ITestEntity>().equal<2>('nested.field1', 'b'));
+    expect(res.map(i => i.id)).toEqual([2]);
+
+    //contains is case-sensitive, icontains is not
+    res = await service.query({filter: {value: {_contains: 'alpha'}}});
+    expect(res).toEqual([]);
+    res = await service.query({filter: {value: {_icontains: 'alpha'}}});
+    expect(res.map(i => i.id)).toEqual([1]);
+
+    res = await service.query({sort: ['id'], limit: -1, offset: 2});
+    expect(res.map(i => i.id)).toEqual([3, 4]);
+  });
+
+  it('should count and sum values in SQL', async () => {
+    expect(await service.count()).toBe(4);
+    expect(await service.count(dbqb<ITestEntity>().equal<2>('nested.field1', 'b'))).toBe(1);
+    expect(await service.sum('decimal', {status: {_eq: 'active'}})).toBe(30);
+    expect(await service.max('decimal')).toBe(40);
+    expect(await service.aggregate({aggregate: {count: ['*']}, group: ['status'], sort: ['status'], limit: 2}))
+      .toEqual([{status: 'active', count: {'*': 2}}, {status: 'archived', count: {'*': 1}}]);
+  });
+
+  it('should share one request between identical concurrent queries', async () => {
+    const conn = dbBroker.getServerByEntity('test')!.i as DB_SqlConnection;
+    const spy = jest.spyOn(conn, 'execute');
+    service.dedupeQueries = true;
+    service.defaultQuery = {limit: 10};
+    const [a, b, c] = await Promise.all([
+      service.query({filter: {status: {_eq: 'active'}}}),
+      service.query(dbqb<ITestEntity>().equal('status', 'active').limit(10)), //same after merge and compile
+      service.query({filter: {status: {_eq: 'draft'}}}),
+    ]);
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(a).toEqual(b);
+    expect(a[0]).not.toBe(b[0]); //own copies
+    expect(c.map(i => i.id)).toEqual([3]);
+
+    await service.query({filter: {status: {_eq: 'active'}}});
+    expect(spy).toHaveBeenCalledTimes(3); //only pending requests are shared
+
+    //results that structuredClone() can't copy are shared too, copies keep prototypes
+    class Row { id = 1; value = 'from driver'; toString() { return this.value; } }
+    spy.mockResolvedValueOnce({rows: [Object.assign(new Row(), {format: (v:string) => v})]});
+    const [d, e] = await Promise.all([service.query({filter: {id: {_eq: 1}}}), service.query({filter: {id: {_eq: 1}}})]);
+    expect(spy).toHaveBeenCalledTimes(4);
+    expect(e[0]).not.toBe(d[0]);
+    expect(e[0]).toBeInstanceOf(Row);
+    expect(String(e[0])).toBe('from driver');
+  });
+
+  it('should use implicit rowid when it is the ID field', async () => {
+    await initServer('CREATE TABLE "test" ("status" TEXT, "value" TEXT)');
+    service = new TestSQLiteEntityService(dbBroker, {idFieldName: 'rowid', errorsToConsole: false});
+    const added = await service.add({value: 'one'});
+    if(typeof added === 'string') throw new Error(added);
+    expect((added as any).rowid).toBe(1);
+    const upd = await service.update({value: 'updated'}, 1);
+    if(typeof upd === 'string') throw new Error(upd);
+    expect(upd).toEqual({rowid: 1, status: null, value: 'updated'});
+    expect(await service.delete(1)).toBe(true);
+
+    //set by the subclass after construction of the base class
+    class RowidService extends TestSQLiteEntityService {
+      override idFieldName = 'rowid' as 'id';
+    }
+    service = new RowidService(dbBroker, {errorsToConsole: false});
+    expect((await service.add({value: 'two'}) as any).rowid).toBe(1); //table is empty again
+    expect(await service.getById(1)).toEqual({rowid: 1, status: null, value: 'two'});
+  });
+
+  it('should generate uuids for new entities', async () => {
+    await initServer('CREATE TABLE "test" ("id" TEXT PRIMARY KEY, "value" TEXT)');
+    service = new TestSQLiteEntityService(dbBroker, {errorsToConsole: false});
+    service.idType = 'uuid';
+    const added = await service.add([{value: 'one'}, {id: 'own-id', value: 'two'}]);
+    if(typeof added === 'string') throw new Error(added);
+    expect(added[0].id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(added[1].id).toBe('own-id');
+    expect((await service.getById(added[0].id!))?.value).toBe('one');
+  });
+
+  it('should require limit for batch delete', async () => {
+    expect(typeof await service.batchDelete({filter: {status: {_eq: 'active'}}})).toBe('string');
+    expect(await service.batchDelete(dbqb<ITestEntity>().equal('status', 'active').sort('-id').limit(1))).toBe(true);
+    expect((await service.getAll()).map(i => i.id)).toEqual([1, 3, 4]);
+  });
+
+  it('should batch update rows selected by query', async () => {
+    const upd = await service.batchUpdate({value: 'batch'}, dbqb<ITestEntity>().greater('id', 1).sort('id').limit(1));
+    if(typeof upd === 'string') throw new Error(upd);
+    expect(upd.map(i => [i.id, i.value])).toEqual([[2, 'batch']]);
+    expect(typeof await service.batchUpdate({value: 'x'}, {filter: {id: {_gt: 1}}})).toBe('string');
+  });
+
+});
@@ -0,0 +1,160 @@
+import {DB_Credentials, DB_EntityID, DBtype, IsLoginStatus} from './types/types.js';
+import {DB_BrokerService} from './broker.service.js';
+import {DB_EntityServiceBase_SQL} from './service-sql.js';
+import {DB_EntityBase} from './types/db-entity-base.js';
+import {DB_EntityService_Options} from './types/service-options.interface.js';
+import {DB_ServerInfo_SQL, DB_SqlConnection, DB_SqlResult} from './sql/sql.types.js';
+import {DB_SqlCompiler} from './sql/sql-compiler.js';
+import {DB_SqlDialect_SQLite} from './sql/dialect-sqlite.js';
+
+/** part of the `better-sqlite3` Database we use */
+interface BetterSqlite3Like {
+  prepare(sql:string):{
+    reader:boolean,
+    all(...params:unknown[]):Record<string, any>[],
+    run(...params:unknown[]):{changes:number, lastInsertRowid:number|bigint},
+  },
+  close():void,
+}
+
+/** part of the `sql.js` Database we use */
+interface SqlJsLike {
+  prepare(sql:string):{
+    bind(params:any[]):boolean,
+    step():boolean,
+    getAsObject():Record<string, any>,
+    free():boolean,
+  },
+  getRowsModified():number,
+  exec(sql:string):{values:unknown[][]}[],
+  close():void,
+}
+
+/**
+ * SQLite implementation of the DB_EntityServiceBase,
+ * for small workers, edge deployments and fast local integration tests.
+ *
+ * `srvInfo.url` is the DB file name (`:memory:` if empty), it's opened on login
+ * with `better-sqlite3` package (optional dependency). Or put your own connection
+ * to `srvInfo.i` before login, `fromSqlJs()` and `fromBetterSqlite3()` wrap popular drivers.
+ *
+ * IDs: `idType = 'rowid'` (default) - DB generates integer IDs (INTEGER PRIMARY KEY or rowid),
+ * set `idFieldName = 'rowid'` if table has no own ID column.
+ * `idType = 'uuid'` - service generates uuid for entities added without ID.
+ *
+ * @example
+ * dbBroker.upsertServer('local', {type: DBtype.sqlite, url: './data.db', entities: ['product']});
+ * class ProductService extends DB_EntityServiceBase_SQLite<IProduct> {
+ *   constructor(db:DB_BrokerService) { super('local:product', db); }
+ * }
+ */
+abstract class DB_EntityServiceBase_SQLite<T extends DB_EntityBase<object>|object> extends DB_EntityServiceBase_SQL<T> {
+
+  /** how IDs of new entities are generated */
+  idType:'rowid'|'uuid' = 'rowid';
+
+  /** compiler for the current `idFieldName` (@see compiler) */
+  private compilerOf?:{idFieldName:string, compiler:DB_SqlCompiler};
+
+  /**
+   * compiler of SQL statements, created on first use (and again if `idFieldName` was changed),
+   * so `idFieldName` set by constructors or fields of subclasses is used
+   */
+  protected get compiler():DB_SqlCompiler {
+    if(this.compilerOf?.idFieldName !== this.idFieldName) this.compilerOf = {
+      idFieldName: this.idFieldName,
+      //`rowid` is not returned by `SELECT *`, so ask it explicitly if it's used as ID
+      compiler: new DB_SqlCompiler(DB_SqlDialect_SQLite, this.idFieldName === 'rowid' ? ['rowid'] : []),
+    };
+    return this.compilerOf.compiler;
+  }
+
+  /**
+   * @param entityName
+   * @param dbBroker
+   * @param options config verbosity level, error throw policy, etc
+   * @protected
+   */
+  protected constructor(entityName:string, dbBroker:DB_BrokerService, options?:DB_EntityService_Options) {
+    super(entityName, dbBroker, options);//init base class (save server from broker and login)
+    if(!this.srvInfo.type) this.srvInfo.type = DBtype.sqlite; //the server 'sqlite' type must be set
+    if(!this.srvInfo.loginFunction) this.srvInfo.loginFunction = DB_EntityServiceBase_SQLite.loginToServer as any;
+  }
+
+  protected override generateId():DB_EntityID|undefined {
+    //web crypto is global in browsers and node 19+
+    return this.idType === 'uuid' ? (globalThis as unknown as {crypto:{randomUUID():string}}).crypto.randomUUID() : undefined;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // SERVER IMPLEMENTATION FUNCTIONS
+
+  /**
+   * open DB file (if `srv.i` is not set yet) and prepare connection
+   * @param toServer
+   * @param credentials only `url` (file name) is used
+   */
+  static override async loginToServer(toServer:DB_ServerInfo_SQL, credentials?:DB_Credentials):Promise<IsLoginStatus> {
+    const srv = toServer;  if(!srv) return IsLoginStatus.error;
+    if(srv.isLoggedIn > IsLoginStatus.ndef) return srv.isLoggedIn;
+    if(credentials?.url) srv.url = credentials.url;
+
+    srv.broker.upsertServer(srv.name, {isLoggedIn:IsLoginStatus.waiting});
+    try {
+      if(!srv.i) srv.i = await DB_EntityServiceBase_SQLite.connect(srv);
+      //same LIKE behavior as other DBs: `_contains` is case-sensitive, `_icontains` is not
+      await srv.i.execute('PRAGMA case_sensitive_like = ON', []);
+      if(!srv.user) srv.user = {id: srv.login ?? 'sqlite'};
+      srv.broker.upsertServer(srv.name, {isLoggedIn:IsLoginStatus.yes});
+    } catch (e) {
+      console.error('login error:', e);
+      srv.broker.upsertServer(srv.name, {isLoggedIn:IsLoginStatus.not});
+    }
+    return srv.isLoggedIn;
+  }
+
+  /**
+   * open DB file with `better-sqlite3`,
+   * `srv.options.sqlite` is passed to the Database constructor as is
+   * @param srv
+   */
+  static async connect(srv:DB_ServerInfo_SQL):Promise<DB_SqlConnection> {
+    const driver = 'better-sqlite3'; //optional dependency, not needed if you give your own connection
+    const Database = (await import(driver)).default;
+    return DB_EntityServiceBase_SQLite.fromBetterSqlite3(new Database(srv.url || ':memory:', srv.options?.['sqlite']));
+  }
+
+  /** wrap `better-sqlite3` Database to DB_SqlConnection */
+  static fromBetterSqlite3(db:BetterSqlite3Like):DB_SqlConnection {
+    return {
+      execute: async (sql, params):Promise<DB_SqlResult> => {
+        const stmt = db.prepare(sql);
+        if(stmt.reader) return {rows: stmt.all(params)};
+        const res = stmt.run(params);
+        return {rows: [], affectedRows: res.changes, insertId: Number(res.lastInsertRowid)};
+      },
+      close: () => db.close(),
+    };
+  }
+
+  /** wrap `sql.js` Database (sqlite compiled to wasm, works in browsers too) to DB_SqlConnection */
+  static fromSqlJs(db:SqlJsLike):DB_SqlConnection {
+    return {
+      execute: async (sql, params):Promise<DB_SqlResult> => {
+        const stmt = db.prepare(sql);
+        try {
+          stmt.bind(params.map(p => typeof p === 'boolean' ? Number(p) : p));
+          const rows:Record<string, any>[] = [];
+          while(stmt.step()) rows.push(stmt.getAsObject());
+          if(/^\s*(SELECT|PRAGMA|WITH)/i.test(sql)) return {rows};
+          const insertId = /^\s*INSERT/i.test(sql) ? db.exec('SELECT last_insert_rowid()')[0].values[0][0] as number : undefined;
+          return {rows, affectedRows: db.getRowsModified(), insertId};
+        } finally { stmt.free(); }
+      },
+      close: () => db.close(),
+    };
+  }
+}
+
+export { DB_EntityServiceBase_SQLite };
+export default DB_EntityServiceBase_SQLite;
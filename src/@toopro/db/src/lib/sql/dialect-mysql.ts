@@ -0,0 +1,27 @@
+import { DB_SqlDialect, DB_SqlValue } from './sql.types.js';
+import { DB_SqlCompiler } from './sql-compiler.js';
+import { DBtype } from '../types/types.js';
+
+/**
+ * MySQL / MariaDB dialect:
+ * backtick quoting, `?` placeholders, JSON_EXTRACT for nested fields
+ */
+export const DB_SqlDialect_MySQL:DB_SqlDialect = {
+  name: 'mysql',
+  quoteId: name => '`' + name.replace(/`/g, '``') + '`',
+  placeholder: () => '?',
+  jsonPath: (column, path, addParam) =>
+    `JSON_UNQUOTE(JSON_EXTRACT(${column}, ${addParam('$.' + path.map(p => JSON.stringify(p)).join('.'))}))`,
+  like: (expr, ph) => `${expr} LIKE BINARY ${ph} ESCAPE '!'`,
+  ilike: (expr, ph) => `LOWER(${expr}) LIKE LOWER(${ph}) ESCAPE '!'`,
+  geo: (fn, expr, ph) => `${fn === 'intersects_bbox' ? 'MBRIntersects' : 'ST_Intersects'}(${expr}, ST_GeomFromGeoJSON(${ph}))`,
+  limitAll: '18446744073709551615',
+  toParam: (value:unknown):DB_SqlValue => {
+    if(value === undefined || value === null) return null;
+    if(value instanceof Date || value instanceof Uint8Array) return value;
+    if(typeof value === 'object') return JSON.stringify(value);
+    return value as DB_SqlValue;
+  },
+};
+
+DB_SqlCompiler.registerDialect(DBtype.mysql, DB_SqlDialect_MySQL); //for `dbqb().for(DBtype.mysql, table)`
@@ -0,0 +1,30 @@
+import { DB_SqlDialect, DB_SqlValue } from './sql.types.js';
+import { DB_SqlCompiler } from './sql-compiler.js';
+import { DBtype } from '../types/types.js';
+
+/**
+ * PostgreSQL dialect:
+ * double quotes for names, `$1` placeholders, `#>>` for nested fields of json/jsonb columns
+ */
+export const DB_SqlDialect_Postgres:DB_SqlDialect = {
+  name: 'postgres',
+  quoteId: name => '"' + name.replace(/"/g, '""') + '"',
+  placeholder: index => `$${index}`,
+  jsonPath: (column, path, addParam) =>
+    `(${column} #>> ${addParam('{' + path.map(p => JSON.stringify(p)).join(',') + '}')}::text[])`,
+  like: (expr, ph) => `${expr}::text LIKE ${ph} ESCAPE '!'`,
+  ilike: (expr, ph) => `${expr}::text ILIKE ${ph} ESCAPE '!'`,
+  text: expr => `${expr}::text`,
+  geo: (fn, expr, ph) => fn === 'intersects_bbox'
+    ? `${expr} && ST_GeomFromGeoJSON(${ph})`
+    : `ST_Intersects(${expr}, ST_GeomFromGeoJSON(${ph}))`,
+  limitAll: 'ALL',
+  toParam: (value:unknown):DB_SqlValue => {
+    if(value === undefined || value === null) return null;
+    if(value instanceof Date || value instanceof Uint8Array) return value;
+    if(typeof value === 'object') return JSON.stringify(value);
+    return value as DB_SqlValue;
+  },
+};
+
+DB_SqlCompiler.registerDialect(DBtype.postgres, DB_SqlDialect_Postgres); //for `dbqb().for(DBtype.postgres, table)`
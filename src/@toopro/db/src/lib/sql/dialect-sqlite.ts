@@ -0,0 +1,29 @@
+import { DB_SqlDialect, DB_SqlValue } from './sql.types.js';
+import { DB_SqlCompiler } from './sql-compiler.js';
+import { DBtype } from '../types/types.js';
+
+/**
+ * SQLite dialect:
+ * double quotes for names, `?` placeholders, json_extract for nested fields.
+ * LIKE is case-sensitive only with `PRAGMA case_sensitive_like = ON` (SQLite service sets it on login).
+ */
+export const DB_SqlDialect_SQLite:DB_SqlDialect = {
+  name: 'sqlite',
+  quoteId: name => '"' + name.replace(/"/g, '""') + '"',
+  placeholder: () => '?',
+  jsonPath: (column, path, addParam) =>
+    `json_extract(${column}, ${addParam('$.' + path.map(p => JSON.stringify(p)).join('.'))})`,
+  like: (expr, ph) => `${expr} LIKE ${ph} ESCAPE '!'`,
+  ilike: (expr, ph) => `LOWER(${expr}) LIKE LOWER(${ph}) ESCAPE '!'`,
+  limitAll: '-1',
+  toParam: (value:unknown):DB_SqlValue => {
+    if(value === undefined || value === null) return null;
+    if(typeof value === 'boolean') return value ? 1 : 0;
+    if(value instanceof Date) return value.toISOString();
+    if(value instanceof Uint8Array) return value;
+    if(typeof value === 'object') return JSON.stringify(value);
+    return value as DB_SqlValue;
+  },
+};
+
+DB_SqlCompiler.registerDialect(DBtype.sqlite, DB_SqlDialect_SQLite); //for `dbqb().for(DBtype.sqlite, table)`
@@ -0,0 +1,80 @@
+import { DB_Filter, DB_Query, dbqb, I_DB_Query_Directus } from '../types/query.type.js';
+import { DB_QueryCompilers } from '../types/query-compiler.js';
+import { DBtype } from '../types/types.js';
+import { DB_SqlCompiler } from './sql-compiler.js';
+import { DB_SqlDialect_MySQL } from './dialect-mysql.js';
+import { DB_SqlDialect_Postgres } from './dialect-postgres.js';
+import { DB_SqlDialect_SQLite } from './dialect-sqlite.js';
+import { I_DB_SqlStatement } from './sql.types.js';
+
+interface IProduct { id:number, name:string, price:number, meta:{color:string} }
+
+describe('DB_SqlCompiler and DB_QueryCompilers (@toopro/db)', () => {
+
+  const where = (c:DB_SqlCompiler, filter:DB_Filter<any>) => {
+    const params:unknown[] = [];
+    return {sql: c.filterSql(filter, params as any), params};
+  };
+
+  it('should compile all field operators with bound params', () => {
+    const c = new DB_SqlCompiler(DB_SqlDialect_SQLite);
+    expect(where(c, {price: {_between: [1, 5]}, id: {_nbetween: [7, 9]}}))
+      .toEqual({sql: '"price" BETWEEN ? AND ? AND "id" NOT BETWEEN ? AND ?', params: [1, 5, 7, 9]});
+    expect(where(c, {name: {_empty: true}, meta: {_nempty: true}}))
+      .toEqual({sql: `("name" IS NULL OR "name" = '') AND ("meta" IS NOT NULL AND "meta" <> '')`, params: []});
+    expect(where(c, {name: {_starts_with: 'a', _nistarts_with: 'B', _iends_with: 'c', _nends_with: 'd'}})).toEqual({
+      sql: `"name" LIKE ? ESCAPE '!' AND NOT LOWER("name") LIKE LOWER(?) ESCAPE '!' AND LOWER("name") LIKE LOWER(?) ESCAPE '!' AND NOT "name" LIKE ? ESCAPE '!'`,
+      params: ['a%', 'B%', '%c', '%d'],
+    });
+    expect(where(c, {name: {_eq: null as any}, id: {_in: []}, price: {_nin: []}, meta: {_null: true}}))
+      .toEqual({sql: '"name" IS NULL AND 1=0 AND 1=1 AND "meta" IS NULL', params: []});
+    expect(where(c, {_and: [{_or: []}, {id: {_neq: true}}]})).toEqual({sql: '(1=0 AND "id" <> ?)', params: [1]});
+    expect(() => where(c, {price: {_between: [1]}})).toThrow();
+    expect(() => where(c, {meta: {_intersects: '{}'}})).toThrow(); //sqlite has no spatial functions
+  });
+
+  it('should escape LIKE wildcards and quote names', () => {
+    const c = new DB_SqlCompiler(DB_SqlDialect_MySQL);
+    expect(where(c, {'na`me': {_icontains: '50%_off!'}}))
+      .toEqual({sql: "LOWER(`na``me`) LIKE LOWER(?) ESCAPE '!'", params: ['%50!%!_off!!%']});
+    expect(where(c, {geo: {_nintersects_bbox: '{"type":"Point","coordinates":[1,2]}'}}))
+      .toEqual({sql: 'NOT MBRIntersects(`geo`, ST_GeomFromGeoJSON(?))', params: ['{"type":"Point","coordinates":[1,2]}']});
+  });
+
+  it('should compile postgres with numbered placeholders', () => {
+    const c = new DB_SqlCompiler(DB_SqlDialect_Postgres);
+    expect(c.select('product', {filter: {'meta.color': {_icontains: 'red'}, price: {_gt: 5}}, sort: ['-price'], offset: 10})).toEqual({
+      sql: `SELECT * FROM "product" WHERE ("meta" #>> $1::text[])::text ILIKE $2 ESCAPE '!' AND "price" > $3 ORDER BY "price" DESC LIMIT ALL OFFSET 10`,
+      params: ['{"color"}', '%red%', 5],
+    });
+    //non-text columns are compared with '' as text
+    expect(where(c, {price: {_empty: true}, created: {_nempty: true}})).toEqual({
+      sql: `("price" IS NULL OR "price"::text = '') AND ("created" IS NOT NULL AND "created"::text <> '')`, params: [],
+    });
+  });
+
+  it('should look up compilers by DB type', () => {
+    const qb = dbqb<IProduct>().equal('name', 'x').limit(5);
+    expect(qb.for(DBtype.mysql, 'product')).toEqual({sql: 'SELECT * FROM `product` WHERE `name` = ? LIMIT 5', params: ['x']});
+    expect(qb.for(DBtype.sqlite, 'product').sql).toBe('SELECT * FROM "product" WHERE "name" = ? LIMIT 5');
+    expect(qb.for(DBtype.postgres, 'product').sql).toBe('SELECT * FROM "product" WHERE "name" = $1 LIMIT 5');
+    expect(qb.for(DBtype.memory)).toEqual(qb.q);
+    expect(() => qb.for(DBtype.mysql, '')).toThrow();
+
+    const d = dbqb<IProduct>().fieldQuery('meta', dbqb().limit(1)).for(DBtype.directus);
+    expect(d.deep).toEqual({meta: {_limit: 1}});
+    expect(new DB_Query<IProduct>({}).for()).toEqual({});
+  });
+
+  it('should allow to register own compilers', () => {
+    expect(() => dbqb().for('custom')).toThrow('unknown query type: custom');
+    DB_QueryCompilers.register<I_DB_SqlStatement>('custom', (q, table) => ({sql: `FIND ${table} ${q.limit}`, params: []}));
+    expect(dbqb().limit(3).for<I_DB_SqlStatement>('custom', 'items').sql).toBe('FIND items 3');
+    expect(DB_QueryCompilers.types()).toEqual(expect.arrayContaining([DBtype.directus, DBtype.mysql, 'custom']));
+    expect(DB_QueryCompilers.unregister('custom')).toBe(true);
+    expect(DB_QueryCompilers.has('custom')).toBe(false);
+    const drcts:I_DB_Query_Directus<IProduct> = dbqb<IProduct>().for(DBtype.directus);
+    expect(drcts.limit).toBe(100);
+  });
+
+});
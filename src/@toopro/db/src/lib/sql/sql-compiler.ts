@@ -0,0 +1,284 @@
+import { DB_Aggregate, DB_Filter, I_DB_Query } from '../types/query.type.js';
+import { DB_Error, DB_ErrorLevel } from '../types/db.error.js';
+import { DB_QueryCompilers } from '../types/query-compiler.js';
+import { DBtype } from '../types/types.js';
+import { DB_SqlDialect, DB_SqlValue, I_DB_SqlStatement } from './sql.types.js';
+
+/** SQL functions for the aggregate keys of the query */
+const SQL_AGGREGATE_FN:Record<string, string> = {avg:'AVG', count:'COUNT', sum:'SUM', min:'MIN', max:'MAX'};
+
+/**
+ * Compiles generic I_DB_Query (and filters) to parameterized SQL statements.
+ * All values are bound as parameters, only names of tables/columns
+ * are put to SQL text (quoted by the dialect).
+ *
+ * Compiler throws DB_Error if query can't be compiled (unknown operator, etc.),
+ * services catch it and report in their usual way.
+ *
+ * @example
+ * const c = new DB_SqlCompiler(DB_SqlDialect_MySQL);
+ * c.select('product', {filter:{price:{_gt:10}}, sort:['-price'], limit:5});
+ * // {sql:'SELECT * FROM `product` WHERE `price` > ? ORDER BY `price` DESC LIMIT 5', params:[10]}
+ */
+export class DB_SqlCompiler {
+
+  /**
+   * @param dialect differences of the DB engine
+   * @param extraColumns columns that are not returned by `*` (like sqlite `rowid`), but we need them
+   */
+  constructor(readonly dialect:DB_SqlDialect, readonly extraColumns:string[] = []) {}
+
+  /**
+   * SELECT statement for the query
+   * @param table table name
+   * @param q query (fieldQ is ignored - SQL adaptors don't load relations)
+   * @param searchFields columns to search in when `q.search` is given
+   */
+  select<T>(table:string, q:I_DB_Query<T>, searchFields?:string[]):I_DB_SqlStatement {
+    const params:DB_SqlValue[] = [];
+    let sql = `SELECT ${this.selectList(q)} FROM ${this.dialect.quoteId(table)}`;
+
+    const where = this.whereSql(q, params, searchFields);
+    if(where) sql += ` WHERE ${where}`;
+
+    if(q.group?.length) sql += ` GROUP BY ${q.group.map(f => this.dialect.quoteId(f)).join(', ')}`;
+
+    if(q.sort?.length) sql += ` ORDER BY ${q.sort.map(s => this.sortSql(s, params)).join(', ')}`;
+
+    //limit -1 means "all items" (same as in directus)
+    const limit = q.limit !== undefined && q.limit >= 0 ? Math.floor(q.limit) : undefined;
+    let offset = q.offset ?? 0;
+    if(q.page && q.page > 1 && limit) offset += (q.page - 1) * limit;
+    if(limit !== undefined) sql += ` LIMIT ${limit}`;
+    else if(offset) sql += ` LIMIT ${this.dialect.limitAll}`;
+    if(offset) sql += ` OFFSET ${Math.floor(offset)}`;
+
+    return {sql, params};
+  }
+
+  /**
+   * WHERE part (without the keyword) for filter and search of the query
+   * @return empty string if there is no conditions
+   */
+  whereSql<T>(q:Pick<I_DB_Query<T>, 'filter'|'search'>, params:DB_SqlValue[], searchFields?:string[]):string {
+    const parts:string[] = [];
+    if(q.filter) { const f = this.filterSql(q.filter as DB_Filter, params); if(f) parts.push(f); }
+    if(q.search) {
+      if(!searchFields?.length) throw new DB_Error(`[tps/db] search needs searchFields to be set for SQL adaptor`, '', '', DB_ErrorLevel.ERROR);
+      const pattern = `%${DB_SqlCompiler.escapeLike(q.search)}%`;
+      parts.push(`(${searchFields.map(f => this.dialect.ilike(this.column(f, params), this.param(pattern, params))).join(' OR ')})`);
+    }
+    return parts.join(' AND ');
+  }
+
+  /**
+   * INSERT statement for one row
+   */
+  insert(table:string, row:Record<string, any>):I_DB_SqlStatement {
+    const params:DB_SqlValue[] = [];
+    const cols = Object.keys(row).filter(k => row[k] !== undefined);
+    if(!cols.length) return {sql: `INSERT INTO ${this.dialect.quoteId(table)} DEFAULT VALUES`, params};
+    const values = cols.map(c => this.param(row[c], params));
+    return {sql: `INSERT INTO ${this.dialect.quoteId(table)} (${cols.map(c => this.dialect.quoteId(c)).join(', ')}) VALUES (${values.join(', ')})`, params};
+  }
+
+  /**
+   * UPDATE statement for all rows matching the filter
+   */
+  update(table:string, data:Record<string, any>, filter:DB_Filter<any>):I_DB_SqlStatement {
+    const params:DB_SqlValue[] = [];
+    const cols = Object.keys(data).filter(k => data[k] !== undefined);
+    if(!cols.length) throw new DB_Error(`[tps/db] nothing to update in ${table}`, table, '', DB_ErrorLevel.WARNING);
+    const set = cols.map(c => `${this.dialect.quoteId(c)} = ${this.param(data[c], params)}`).join(', ');
+    const where = this.filterSql(filter, params);
+    return {sql: `UPDATE ${this.dialect.quoteId(table)} SET ${set}${where ? ` WHERE ${where}` : ''}`, params};
+  }
+
+  /**
+   * DELETE statement for all rows matching the filter
+   * (filter is required, we never delete whole table by accident)
+   */
+  delete(table:string, filter:DB_Filter<any>):I_DB_SqlStatement {
+    const params:DB_SqlValue[] = [];
+    const where = this.filterSql(filter, params);
+    if(!where) throw new DB_Error(`[tps/db] delete from ${table} without filter is not allowed`, table, '', DB_ErrorLevel.ERROR);
+    return {sql: `DELETE FROM ${this.dialect.quoteId(table)} WHERE ${where}`, params};
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // FILTERS
+
+  /**
+   * compile filter to the SQL condition (without WHERE keyword)
+   * @param filter generic filter object
+   * @param params array to add bound values to
+   * @param path path of the field we are in (for nested filters)
+   */
+  filterSql(filter:DB_Filter<any>, params:DB_SqlValue[], path:string[] = []):string {
+    const parts:string[] = [];
+    for(const [key, cond] of Object.entries(filter ?? {})) {
+      if(cond === undefined) continue;
+      if(key === '_and' || key === '_or') {
+        const sub = (cond as DB_Filter[]).map(f => this.filterSql(f, params, path)).filter(Boolean);
+        if(!sub.length) parts.push(key === '_and' ? '1=1' : '1=0');
+        else parts.push(`(${sub.join(key === '_and' ? ' AND ' : ' OR ')})`);
+      } else if(key.startsWith('_')) {
+        if(!path.length) throw new DB_Error(`[tps/db] operator ${key} must be used on a field`, '', '', DB_ErrorLevel.ERROR, filter);
+        parts.push(this.operatorSql(this.columnPath(path, params), key, cond, params));
+      } else {
+        //dotted keys are same as nested objects
+        const sub = this.filterSql(cond as DB_Filter, params, [...path, ...key.split('.')]);
+        if(sub) parts.push(sub);
+      }
+    }
+    return parts.join(' AND ');
+  }
+
+  /**
+   * SQL condition for one operator of the field
+   * @param col SQL expression of the field
+   * @param op operator, like `_eq`
+   * @param val value of the operator
+   * @param params array to add bound values to
+   */
+  protected operatorSql(col:string, op:string, val:any, params:DB_SqlValue[]):string {
+    switch(op) {
+      case '_eq':  return val === null ? `${col} IS NULL` : `${col} = ${this.param(val, params)}`;
+      case '_neq': return val === null ? `${col} IS NOT NULL` : `${col} <> ${this.param(val, params)}`;
+      case '_lt':  return `${col} < ${this.param(val, params)}`;
+      case '_lte': return `${col} <= ${this.param(val, params)}`;
+      case '_gt':  return `${col} > ${this.param(val, params)}`;
+      case '_gte': return `${col} >= ${this.param(val, params)}`;
+      case '_in':
+      case '_nin': {
+        const arr = (Array.isArray(val) ? val : [val]) as unknown[];
+        if(!arr.length) return op === '_in' ? '1=0' : '1=1';
+        return `${col} ${op === '_nin' ? 'NOT IN' : 'IN'} (${arr.map(v => this.param(v, params)).join(', ')})`;
+      }
+      case '_null':  return `${col} ${val ? 'IS NULL' : 'IS NOT NULL'}`;
+      case '_nnull': return `${col} ${val ? 'IS NOT NULL' : 'IS NULL'}`;
+      case '_between':
+      case '_nbetween': {
+        if(!Array.isArray(val) || val.length !== 2) throw new DB_Error(`[tps/db] ${op} needs array of two values`, '', '', DB_ErrorLevel.ERROR, val);
+        return `${col} ${op === '_nbetween' ? 'NOT BETWEEN' : 'BETWEEN'} ${this.param(val[0], params)} AND ${this.param(val[1], params)}`;
+      }
+      case '_empty':
+      case '_nempty': {
+        const text = this.dialect.text ? this.dialect.text(col) : col;
+        return (op === '_empty') === (val !== false) ? `(${col} IS NULL OR ${text} = '')` : `(${col} IS NOT NULL AND ${text} <> '')`;
+      }
+      case '_intersects':
+      case '_nintersects':
+      case '_intersects_bbox':
+      case '_nintersects_bbox': {
+        if(!this.dialect.geo) break;
+        const sql = this.dialect.geo(op.endsWith('bbox') ? 'intersects_bbox' : 'intersects', col, this.param(val, params));
+        return op.startsWith('_n') ? `NOT ${sql}` : sql;
+      }
+    }
+
+    //LIKE operators: [n][i]contains, [n][i]starts_with, [n][i]ends_with
+    const like = /^_(n?)(i?)(contains|starts_with|ends_with)$/.exec(op);
+    if(like) {
+      const [, not, ci, kind] = like;
+      const esc = DB_SqlCompiler.escapeLike(val);
+      const pattern = kind === 'contains' ? `%${esc}%` : kind === 'starts_with' ? `${esc}%` : `%${esc}`;
+      const sql = ci ? this.dialect.ilike(col, this.param(pattern, params)) : this.dialect.like(col, this.param(pattern, params));
+      return not ? `NOT ${sql}` : sql;
+    }
+    throw new DB_Error(`[tps/db] operator ${op} is not supported by ${this.dialect.name} compiler`, '', '', DB_ErrorLevel.ERROR);
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // HELPERS
+
+  /** bind value and return its placeholder */
+  protected param(value:unknown, params:DB_SqlValue[]):string {
+    params.push(this.dialect.toParam(value));
+    return this.dialect.placeholder(params.length);
+  }
+
+  /** SQL expression for the field name (dotted names are read from JSON columns) */
+  protected column(field:string, params:DB_SqlValue[]):string {
+    return this.columnPath(field.split('.'), params);
+  }
+
+  protected columnPath(path:string[], params:DB_SqlValue[]):string {
+    const col = this.dialect.quoteId(path[0]);
+    if(path.length === 1) return col;
+    return this.dialect.jsonPath(col, path.slice(1), v => this.param(v, params));
+  }
+
+  protected sortSql(s:string, params:DB_SqlValue[]):string {
+    const desc = s.startsWith('-');
+    const field = s.replace(/^[-+]/, '');
+    return `${this.column(field, params)} ${desc ? 'DESC' : 'ASC'}`;
+  }
+
+  /**
+   * columns list for SELECT:
+   * aggregates (and group fields) if aggregate is set,
+   * else top level columns of the requested fields (dotted fields load whole column)
+   */
+  protected selectList<T>(q:I_DB_Query<T>):string {
+    const q_ = this.dialect.quoteId;
+    if(q.aggregate && Object.keys(q.aggregate).length) {
+      const cols = (q.group ?? []).map(g => q_(g));
+      for(const [fn, fields] of Object.entries(q.aggregate as DB_Aggregate)) {
+        const distinct = fn.endsWith('Distinct');
+        const sqlFn = SQL_AGGREGATE_FN[fn.replace('Distinct', '')];
+        if(!sqlFn) throw new DB_Error(`[tps/db] aggregate function ${fn} is not supported`, '', '', DB_ErrorLevel.ERROR);
+        for(const f of fields ?? []) {
+          const arg = f === '*' ? '*' : q_(f);
+          cols.push(`${sqlFn}(${distinct && f !== '*' ? 'DISTINCT ' : ''}${arg}) AS ${q_(`${fn}${DB_SqlCompiler.aggregateAliasSep}${f}`)}`);
+        }
+      }
+      return cols.join(', ');
+    }
+    if(!q.fields?.length || (q.fields as string[]).includes('*')) return [...this.extraColumns.map(c => q_(c)), '*'].join(', ');
+    const heads = new Set((q.fields as string[]).map(f => f.split('.')[0]));
+    return Array.from(heads).map(h => q_(h)).join(', ');
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // STATIC
+
+  /**
+   * register SELECT compiler of the dialect for `DB_Query.for()` (dialect modules do it on import),
+   * the table name is the target of `for()`
+   * @example
+   * dbqb().equal('id', 1).for(DBtype.mysql, 'product');
+   */
+  static registerDialect(type:DBtype|string, dialect:DB_SqlDialect):void {
+    const compiler = new DB_SqlCompiler(dialect);
+    DB_QueryCompilers.register(type, (q, table) => {
+      if(!table) throw new Error(`table name is needed to compile ${dialect.name} query`);
+      return compiler.select(table, q);
+    });
+  }
+
+  /** separator used in aliases of aggregate columns, like `count:id` */
+  static aggregateAliasSep = ':';
+
+  /** escape LIKE wildcards, escape char is `!` */
+  static escapeLike(value:unknown):string {
+    return String(value).replace(/[!%_]/g, m => `!${m}`);
+  }
+
+  /**
+   * convert row with aggregate aliases (`count:id`)
+   * to the directus-like result object `{count:{id:5}}`,
+   * other columns (group fields) are left as is
+   */
+  static aggregateRow(row:Record<string, any>):Record<string, any> {
+    const res:Record<string, any> = {};
+    for(const [key, val] of Object.entries(row)) {
+      const i = key.indexOf(DB_SqlCompiler.aggregateAliasSep);
+      if(i < 0) { res[key] = val; continue; }
+      const fn = key.slice(0, i), field = key.slice(i + 1);
+      res[fn] = res[fn] ?? {};
+      res[fn][field] = typeof val === 'string' && val !== '' && !isNaN(Number(val)) ? Number(val) : val;
+    }
+    return res;
+  }
+}
@@ -0,0 +1,87 @@
+import { DB_EntityID, DB_ServerInfo } from '../types/types.js';
+
+/** values that could be bound to the SQL statement placeholders */
+export type DB_SqlValue = string | number | boolean | null | Date | Uint8Array;
+
+/**
+ * compiled SQL statement with bound parameters,
+ * SQL text NEVER contains values from the query, only placeholders
+ */
+export interface I_DB_SqlStatement {
+  sql: string,
+  params: DB_SqlValue[],
+}
+
+/**
+ * unified result of the statement execution,
+ * each connection adaptor (mysql2, sqlite, etc.) converts its own result to this
+ */
+export interface DB_SqlResult {
+  //rows for SELECT statements (empty array for others)
+  rows: Record<string, any>[],
+  //number of rows changed by INSERT/UPDATE/DELETE
+  affectedRows?: number,
+  //auto generated ID of the last inserted row (if DB supports it)
+  insertId?: DB_EntityID,
+}
+
+/**
+ * Minimal connection interface that SQL entity services need.
+ * It is the "SDK object" (`srvInfo.i`) of the SQL servers,
+ * so you can put any driver (or local stand-in for tests) behind it.
+ */
+export interface DB_SqlConnection {
+  execute(sql: string, params: DB_SqlValue[]): Promise<DB_SqlResult>,
+  close?(): Promise<void> | void,
+}
+
+export type DB_ServerInfo_SQL = DB_ServerInfo<DB_SqlConnection>;
+
+/**
+ * Differences between SQL engines that compiler needs to know.
+ * @see DB_SqlCompiler
+ */
+export interface DB_SqlDialect {
+  name: string,
+
+  /** quote table or column name */
+  quoteId(name: string): string,
+
+  /**
+   * placeholder for the parameter
+   * @param index 1-based index of the parameter in the statement
+   */
+  placeholder(index: number): string,
+
+  /**
+   * expression to read nested value (as text) from the JSON column
+   * @param column already quoted column name
+   * @param path nested keys, for example ['address','city']
+   * @param addParam call it to bind values, returns placeholder
+   */
+  jsonPath(column: string, path: string[], addParam: (v: DB_SqlValue) => string): string,
+
+  /** case-sensitive LIKE (escape char is always `!`) */
+  like(expr: string, placeholder: string): string,
+
+  /** case-insensitive LIKE (escape char is always `!`) */
+  ilike(expr: string, placeholder: string): string,
+
+  /**
+   * geometry intersection with GeoJSON given in the placeholder,
+   * not set if DB has no spatial functions
+   */
+  geo?(fn: 'intersects' | 'intersects_bbox', expr: string, placeholder: string): string,
+
+  /**
+   * expression as text to compare it with empty string (`_empty`, `_nempty`),
+   * not set if DB compares columns of any type with '' (postgres fails on non-text columns)
+   */
+  text?(expr: string): string,
+
+  /** value for LIMIT when only OFFSET needed (some engines can't have OFFSET without LIMIT) */
+  limitAll: string,
+
+  /** convert JS value to the value that driver accepts */
+  toParam(value: unknown): DB_SqlValue,
+}
@@ -0,0 +1,161 @@
+import { DB_BrokerService } from '../broker.service.js';
+import { DB_EntityServiceBase_Directus } from '../service-directus.js';
+import { DB_FileService_Directus } from '../files/db-file-service-directus.js';
+import { I_DB_File } from '../files/file.types.js';
+import { ITestEntity, RolesEntityService, TestEntityService } from '../types/TestEntity.service.js';
+import { DB_ServerInfo_Directus, IsLoginStatus } from '../types/types.js';
+import { dbqb } from '../types/query.type.js';
+import { DB_DirectusStandIn } from './directus-stand-in.js';
+
+describe('DB_DirectusStandIn (@toopro/db)', () => {
+
+  const standIn = new DB_DirectusStandIn({
+    users: [{email: 'test@example.com', password: 'secret', first_name: 'Test'}],
+    collections: {
+      test: [
+        {id: 1, status: 'active', value: 'default', decimal: 10, nested: {field1: 'a'}},
+        {id: 2, status: 'draft', value: 'second -middle- value', decimal: 20},
+      ],
+      directus_roles: [{id: 'admin', name: 'Administrator'}],
+    },
+  });
+  let dbBroker:DB_BrokerService;
+  let service:TestEntityService;
+
+  beforeAll(async () => {
+    DB_EntityServiceBase_Directus.RETRY_DELAY = 10;
+    const url = await standIn.start();
+    dbBroker = new DB_BrokerService({
+      credentials: {stats: {url, login: 'test@example.com', password: 'secret'}},
+      entitiesByServer: {stats: ['directus_roles']},
+    });
+    service = new TestEntityService(dbBroker, {errorsToConsole: false});
+    await service.login();
+  });
+
+  afterAll(async () => {
+    await service.logout(); //stops SDK token refresh timer
+    await standIn.stop();
+  });
+
+  it('should login and read current user', async () => {
+    const srv = dbBroker.getServer('stats') as DB_ServerInfo_Directus;
+    expect(srv.isLoggedIn).toBe(IsLoginStatus.yes);
+    expect(srv.user).toMatchObject({first_name: 'Test'});
+    expect(srv.user).not.toHaveProperty('password');
+    expect((await new RolesEntityService(dbBroker).getAll()).map(r => r.name)).toEqual(['Administrator']);
+  });
+
+  it('should query and modify items', async () => {
+    let res = await service.query(dbqb<ITestEntity>().contains('value', 'middle').fields(['id', 'value']));
+    expect(res).toEqual([{id: 2, value: 'second -middle- value'}]);
+    res = await service.query(dbqb<ITestEntity>().equal<2>('nested.field1', 'a'));
+    expect(res.map(i => i.id)).toEqual([1]);
+
+    const added = await service.add([{value: 'three', decimal: 30}, {value: 'four'}] as ITestEntity[]);
+    if(typeof added === 'string') throw new Error(added);
+    expect(added.map(i => i.id)).toEqual([3, 4]);
+
+    const upd = await service.update({status: 'done'}, 3);
+    if(typeof upd === 'string') throw new Error(upd);
+    expect(upd).toEqual({id: 3, value: 'three', decimal: 30, status: 'done'});
+    expect((await service.getById(3))?.status).toBe('done');
+
+    expect(await service.deleteIds([3, 4])).toBe(true);
+    expect(await service.getById(3)).toBeNull();
+    expect(standIn.collections['test'].length).toBe(2);
+  });
+
+  it('should aggregate items like directus', async () => {
+    expect(await service.count()).toBe(2);
+    expect(await service.count({status: {_eq: 'draft'}})).toBe(1);
+    expect(await service.sum('decimal')).toBe(30);
+    const res = await service.aggregate(dbqb<ITestEntity>().aggregate('count', '*').aggregate('max', 'decimal').groupBy('status').sort('status'));
+    expect(res).toEqual([
+      {status: 'active', count: {'*': 1}, max: {decimal: 10}},
+      {status: 'draft', count: {'*': 1}, max: {decimal: 20}},
+    ]);
+    const req = standIn.requests[standIn.requests.length - 1];
+    expect(req.path).toBe('/items/test');
+  });
+
+  it('should iterate items with keyset pages', async () => {
+    const values:string[] = [];
+    for await (const item of service.iterate(dbqb<ITestEntity>().fields(['value']), {pageSize: 1})) values.push(item.value as string);
+    expect(values).toEqual(['default', 'second -middle- value']);
+    const req = standIn.requests[standIn.requests.length - 1];
+    expect(req.status).toBe(200); //third request gets empty page
+  });
+
+  it('should share pending requests of identical queries', async () => {
+    const requests = standIn.requests.length;
+    service.dedupeQueries = true;
+    const [a, b] = await Promise.all([service.getAll(), service.query({})]);
+    service.dedupeQueries = false;
+    expect(a.length).toBe(2);
+    expect(b).toEqual(a);
+    expect(standIn.requests.length - requests).toBe(1);
+  });
+
+  it('should remove cached items changed by query', async () => {
+    const cached = new TestEntityService(dbBroker, {errorsToConsole: false});
+    cached.cacheEnable();
+    await cached.getAll();
+    const upd = await cached.batchUpdate({decimal: 25}, dbqb<ITestEntity>().equal('status', 'draft').limit(10));
+    if(typeof upd === 'string') throw new Error(upd);
+    expect(upd.map(i => i.decimal)).toEqual([25]);
+    expect(cached.cacheGet(2)?.decimal).toBe(25);
+    expect(cached.cacheGet(1)?.decimal).toBe(10);
+
+    const added = await cached.add({value: 'temp', status: 'temp'} as ITestEntity);
+    if(typeof added === 'string') throw new Error(added);
+    expect(cached.cacheGet(added.id!)).toBeDefined();
+    expect(await cached.batchDelete(dbqb<ITestEntity>().equal('status', 'temp').limit(10))).toBe(true);
+    expect(cached.cacheGet(added.id!)).toBeUndefined();
+    expect(await cached.getById(added.id!)).toBeNull();
+    expect(cached.cacheGet(1)).toBeDefined();
+
+    expect(cached.cacheDeleteByFilter({_unknown: true})).toBe(false); //can't be evaluated locally
+    expect(cached.cacheGet(1)).toBeUndefined();
+    expect(await service.batchUpdate({decimal: 20}, [2])).toHaveLength(1);
+  });
+
+  it('should upload files and read contents', async () => {
+    const files = new DB_FileService_Directus(dbBroker.getServer('stats') as DB_ServerInfo_Directus<I_DB_File>);
+    const file = await files.upload({hello: 'world'}, {fields: {filename_download: 'test.json'}});
+    if(typeof file !== 'object') throw new Error('upload failed');
+    expect(file.filename_download).toBe('test.json');
+    expect(standIn.getAsset(String(file.id))?.toString()).toBe('{"hello":"world"}');
+    expect(await files.getContents(file)).toEqual({hello: 'world'});
+    expect(await files.getContents('missing')).toBeNull();
+  });
+
+  it('should retry when server is under pressure or rate limited', async () => {
+    standIn.fail('pressure');
+    expect((await service.getAll()).length).toBe(2);
+    standIn.fail('rate_limit');
+    expect((await service.getAll()).length).toBe(2);
+    expect(standIn.requests.slice(-4).map(r => r.status)).toEqual([503, 200, 429, 200]);
+
+    standIn.fail('pressure', 2); //retried only once
+    expect(await service.getAll()).toEqual([]);
+    expect(service.lastError?.message).toContain('Under pressure');
+  });
+
+  it('should relogin on permission and token errors', async () => {
+    standIn.fail('permission');
+    expect((await service.getAll()).length).toBe(2);
+    expect(standIn.requests.some(r => r.path === '/auth/login' && r.status === 200)).toBe(true);
+
+    standIn.expireTokens();
+    const logins = standIn.requests.filter(r => r.path === '/auth/login').length;
+    expect((await service.getAll()).length).toBe(2);
+    expect(standIn.requests.filter(r => r.path === '/auth/login').length).toBeGreaterThan(logins);
+
+    standIn.fail('permission', 100); //relogin doesn't help
+    expect(await service.getAll()).toEqual([]);
+    expect(service.lastError?.message).toContain('permission');
+    standIn.clearFailures();
+  });
+
+});
@@ -0,0 +1,449 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { DB_LocalQuery } from '../utils/local-query.js';
+import { I_DB_Query } from '../types/query.type.js';
+
+/** user that can log in to the stand-in server (all fields except password are returned by `/users/me`) */
+export interface I_DB_DirectusStandIn_User {
+  id?:string;
+  email:string;
+  password:string;
+  /** static token (as directus user token), never expires */
+  token?:string;
+  role?:string;
+  [key:string]:any;
+}
+
+export interface I_DB_DirectusStandIn_Options {
+  users?:I_DB_DirectusStandIn_User[];
+  /**
+   * initial data of collections, rows are copied.
+   * Only listed collections exist, others are answered with FORBIDDEN (as directus do).
+   * `directus_roles` and `directus_files` are served by `/roles` and `/files`.
+   */
+  collections?:Record<string, Record<string, any>[]>;
+  /** access token lifetime in ms (directus default is 15 minutes) */
+  tokenTTL?:number;
+}
+
+/**
+ * failure modes that could be scripted with `fail()`:
+ * - `token_expired` 401 TOKEN_EXPIRED
+ * - `permission` 403 FORBIDDEN
+ * - `pressure` 503 SERVICE_UNAVAILABLE (server under pressure)
+ * - `rate_limit` 429 REQUESTS_EXCEEDED
+ */
+export type DB_DirectusStandIn_Failure = 'token_expired'|'permission'|'pressure'|'rate_limit';
+
+/** log record of the request made to the stand-in server */
+export interface I_DB_DirectusStandIn_Request {
+  method:string;
+  path:string;
+  status:number;
+}
+
+/** directus error response, status and code are the same as real server returns */
+class StandInError extends Error {
+  constructor(readonly status:number, readonly code:string, message:string) { super(message); }
+}
+
+const FAILURES:Record<DB_DirectusStandIn_Failure, () => StandInError> = {
+  token_expired:  () => new StandInError(401, 'TOKEN_EXPIRED', 'Token expired.'),
+  permission:     () => new StandInError(403, 'FORBIDDEN', 'You don\'t have permission to access this.'),
+  pressure:       () => new StandInError(503, 'SERVICE_UNAVAILABLE', 'Service "api" is unavailable. Under pressure.'),
+  rate_limit:     () => new StandInError(429, 'REQUESTS_EXCEEDED', 'Too many requests, retry after 1s.'),
+};
+
+/**
+ * Local stand-in of the Directus server for offline integration tests (node only).
+ *
+ * Speaks the subset of the Directus REST API that `@directus/sdk` uses in this library:
+ * `/auth/login`, `/auth/refresh`, `/auth/logout`, `/users/me`, `/items/:collection`,
+ * `/roles`, `/files` and `/assets/:id`. Data is kept in memory, queries (and aggregates) are evaluated
+ * with `DB_LocalQuery` (relations are not resolved, nested objects are stored as is).
+ *
+ * New items get auto-increment IDs (or uuids if the collection already has string IDs),
+ * files always get uuids.
+ *
+ * Known errors of the real server could be scripted with `fail()` and `expireTokens()`,
+ * to test how services handle them.
+ *
+ * @example
+ * const standIn = new DB_DirectusStandIn({
+ *   users: [{email: 'test@example.com', password: 'secret'}],
+ *   collections: {test: [{id: 1, value: 'default'}]},
+ * });
+ * const url = await standIn.start();
+ * dbBroker.upsertServer('stats', {url, login: 'test@example.com', password: 'secret'});
+ * standIn.fail('pressure'); //next request gets 503
+ * ...
+ * await standIn.stop();
+ */
+export class DB_DirectusStandIn {
+
+  /** data of collections by name (rows could be checked and changed in tests directly) */
+  readonly collections:Record<string, Record<string, any>[]> = {};
+  readonly users:I_DB_DirectusStandIn_User[];
+  /** all requests made to the server (including failed ones) */
+  readonly requests:I_DB_DirectusStandIn_Request[] = [];
+  tokenTTL:number;
+  /** base url of the started server, empty if not started */
+  url = '';
+
+  private server?:Server;
+  private readonly assets = new Map<string, {contents:Buffer, type:string}>();
+  private readonly accessTokens = new Map<string, {user:I_DB_DirectusStandIn_User, expiresAt:number}>();
+  private readonly refreshTokens = new Map<string, I_DB_DirectusStandIn_User>();
+  private failures:{kind:DB_DirectusStandIn_Failure, times:number, path?:string}[] = [];
+
+  constructor(options:I_DB_DirectusStandIn_Options = {}) {
+    this.users = (options.users ?? []).map(u => ({...u, id: u.id ?? randomUUID()}));
+    for(const name in options.collections) this.collections[name] = options.collections[name].map(row => ({...row}));
+    this.collections['directus_roles'] ??= [];
+    this.collections['directus_files'] ??= [];
+    this.tokenTTL = options.tokenTTL ?? 900000;
+  }
+
+  /**
+   * start listening on localhost
+   * @param port `0` - any free port
+   * @return base url of the server (to use as `url` of DB_ServerInfo)
+   */
+  async start(port = 0):Promise<string> {
+    if(this.server) return this.url;
+    const server = createServer((req, res) => { this.handle(req, res).then(); });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    return this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /** stop the server and close all keep-alive connections */
+  async stop():Promise<void> {
+    const server = this.server;  if(!server) return;
+    this.server = undefined; this.url = '';
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * answer next `times` requests with the error of the given kind
+   * @param kind
+   * @param times
+   * @param path fail only requests which path starts with this string,
+   *    by default all requests except `/auth/*` fail (so relogin could succeed)
+   */
+  fail(kind:DB_DirectusStandIn_Failure, times = 1, path?:string):this {
+    this.failures.push({kind, times, path});
+    return this;
+  }
+
+  /** remove all scripted failures that are not fired yet */
+  clearFailures():void {
+    this.failures = [];
+  }
+
+  /** make all issued access tokens expired (static user tokens keep working) */
+  expireTokens():void {
+    for(const token of this.accessTokens.values()) token.expiresAt = 0;
+  }
+
+  /** stored contents of the uploaded file */
+  getAsset(id:string):Buffer|undefined {
+    return this.assets.get(id)?.contents;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // REQUEST HANDLING
+
+  private async handle(req:IncomingMessage, res:ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    let status = 200;
+    try {
+      const body = await DB_DirectusStandIn.readBody(req);
+      this.checkFailures(url.pathname);
+      const data = await this.route(method, url, req, body, res);
+      if(res.headersSent) status = res.statusCode;
+      else if(data === undefined) res.writeHead(status = 204).end(); //SDK parses body of any json response
+      else {
+        res.writeHead(status, {'Content-Type': 'application/json; charset=utf-8'});
+        res.end(JSON.stringify({data}));
+      }
+    } catch (e) {
+      const err = e instanceof StandInError ? e : new StandInError(500, 'INTERNAL_SERVER_ERROR', String(e));
+      status = err.status;
+      res.writeHead(status, {'Content-Type': 'application/json; charset=utf-8'});
+      res.end(JSON.stringify({errors: [{message: err.message, extensions: {code: err.code}}]}));
+    }
+    this.requests.push({method, path: url.pathname, status});
+  }
+
+  private checkFailures(path:string) {
+    const failure = this.failures.find(f => f.path ? path.startsWith(f.path) : !path.startsWith('/auth/'));
+    if(!failure) return;
+    if(--failure.times <= 0) this.failures = this.failures.filter(f => f !== failure);
+    throw FAILURES[failure.kind]();
+  }
+
+  /** @return response data, `undefined` for 204 (no content) */
+  private async route(method:string, url:URL, req:IncomingMessage, body:Buffer, res:ServerResponse):Promise<any> {
+    const [section, name, id] = url.pathname.split('/').filter(p => !!p).map(decodeURIComponent);
+
+    if(section === 'auth') {
+      if(method !== 'POST') throw new StandInError(404, 'ROUTE_NOT_FOUND', `Route ${url.pathname} doesn't exist.`);
+      return this.auth(name, DB_DirectusStandIn.json(body));
+    }
+
+    const user = this.authorize(req, url);
+    switch (section) {
+      case 'users':
+        if(name === 'me' && method === 'GET') return this.publicUser(user);
+        break;
+      case 'items':
+        if(!name || name.startsWith('directus_')) break;
+        return this.items(name, method, id, url, DB_DirectusStandIn.json(body));
+      case 'roles':
+        return this.items('directus_roles', method, name, url, DB_DirectusStandIn.json(body));
+      case 'files':
+        if(method === 'POST' && !name) return this.upload(req, body, user);
+        if(method === 'PATCH' && name && DB_DirectusStandIn.isMultipart(req)) return this.upload(req, body, user, name);
+        return this.items('directus_files', method, name, url, DB_DirectusStandIn.json(body));
+      case 'assets': {
+        const asset = name ? this.assets.get(name) : undefined;
+        if(!asset || method !== 'GET') throw FAILURES.permission();
+        res.writeHead(200, {'Content-Type': asset.type});
+        res.end(asset.contents);
+        return;
+      }
+    }
+    throw new StandInError(404, 'ROUTE_NOT_FOUND', `Route ${url.pathname} doesn't exist.`);
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // AUTH
+
+  private auth(action:string, body:Record<string, any>) {
+    switch (action) {
+      case 'login': {
+        const user = this.users.find(u => u.email === body['email'] && u.password === body['password']);
+        if(!user) throw new StandInError(401, 'INVALID_CREDENTIALS', 'Invalid user credentials.');
+        return this.issueTokens(user);
+      }
+      case 'refresh': {
+        const user = this.refreshTokens.get(body['refresh_token']);
+        if(!user) throw new StandInError(401, 'INVALID_CREDENTIALS', 'Invalid user credentials.');
+        this.refreshTokens.delete(body['refresh_token']);
+        return this.issueTokens(user);
+      }
+      case 'logout':
+        this.refreshTokens.delete(body['refresh_token']);
+        return;
+    }
+    throw new StandInError(404, 'ROUTE_NOT_FOUND', `Route /auth/${action} doesn't exist.`);
+  }
+
+  private issueTokens(user:I_DB_DirectusStandIn_User) {
+    const access_token = randomUUID(), refresh_token = randomUUID();
+    this.accessTokens.set(access_token, {user, expiresAt: Date.now() + this.tokenTTL});
+    this.refreshTokens.set(refresh_token, user);
+    return {access_token, refresh_token, expires: this.tokenTTL};
+  }
+
+  /** find user by bearer token (or `access_token` query param) */
+  private authorize(req:IncomingMessage, url:URL):I_DB_DirectusStandIn_User {
+    const header = req.headers['authorization'] ?? '';
+    const token = header.startsWith('Bearer ') ? header.substring(7) : url.searchParams.get('access_token');
+    if(!token) throw FAILURES.permission(); //public role has no permissions here
+
+    const staticUser = this.users.find(u => u.token && u.token === token);
+    if(staticUser) return staticUser;
+    const issued = this.accessTokens.get(token);
+    if(!issued) throw new StandInError(401, 'INVALID_CREDENTIALS', 'Invalid user credentials.');
+    if(issued.expiresAt <= Date.now()) throw FAILURES.token_expired();
+    return issued.user;
+  }
+
+  private publicUser(user:I_DB_DirectusStandIn_User) {
+    return Object.fromEntries(Object.entries(user).filter(([key]) => key !== 'password' && key !== 'token'));
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // ITEMS
+
+  private items(collection:string, method:string, id:string|undefined, url:URL, body:any):any {
+    const rows = this.collections[collection];
+    if(!rows) throw FAILURES.permission(); //directus do not tell that collection doesn't exist
+    const query = DB_DirectusStandIn.queryFromParams(url.searchParams);
+
+    switch (method) {
+      case 'GET': {
+        if(id !== undefined) return this.project(this.findRow(rows, id), query);
+        if(query.aggregate) return this.aggregate(rows, query);
+        const res = DB_LocalQuery.run(rows, {...query, limit: query.limit ?? 100});
+        if(!res) throw new StandInError(400, 'INVALID_QUERY', 'Query can\'t be evaluated by the stand-in server.');
+        return res;
+      }
+      case 'POST': {
+        if(id !== undefined) break;
+        const added = (Array.isArray(body) ? body : [body]).map(item => this.insert(rows, item));
+        return Array.isArray(body) ? added.map(row => this.project(row, query)) : this.project(added[0], query);
+      }
+      case 'PATCH': {
+        if(id !== undefined) return this.project(Object.assign(this.findRow(rows, id), body), query);
+        //batch of items with own IDs, or same data by keys or query
+        const updated = Array.isArray(body)
+          ? body.map(item => Object.assign(this.findRow(rows, item.id), item))
+          : this.selectRows(rows, body).map(row => Object.assign(row, body.data));
+        return updated.map(row => this.project(row, query));
+      }
+      case 'DELETE': {
+        const toDelete:Record<string, any>[] = id !== undefined ? [this.findRow(rows, id)]
+          : Array.isArray(body) ? body.map(key => this.findRow(rows, key)) : this.selectRows(rows, body);
+        this.collections[collection] = rows.filter(row => !toDelete.includes(row));
+        for(const row of toDelete) this.assets.delete(String(row['id']));
+        return;
+      }
+    }
+    throw new StandInError(404, 'ROUTE_NOT_FOUND', `Route ${url.pathname} doesn't exist.`);
+  }
+
+  /** aggregated rows as directus returns them: `count` of `*` only is a scalar */
+  private aggregate(rows:Record<string, any>[], query:I_DB_Query):Record<string, any>[] {
+    const res = DB_LocalQuery.aggregate(rows, {...query, limit: query.limit ?? 100});
+    if(!res) throw new StandInError(400, 'INVALID_QUERY', 'Query can\'t be evaluated by the stand-in server.');
+    return res.map(row => {
+      const ret:Record<string, any> = {...row};
+      for(const fn in query.aggregate) {
+        const vals = ret[fn] as Record<string, unknown>;
+        if(Object.keys(vals).length === 1 && '*' in vals) ret[fn] = vals['*'];
+      }
+      return ret;
+    });
+  }
+
+  /** rows selected by `{keys}` or `{query}` of the batch request */
+  private selectRows(rows:Record<string, any>[], body:{keys?:string[], query?:I_DB_Query}) {
+    if(body.keys) return body.keys.map(key => this.findRow(rows, key));
+    const res = body.query ? DB_LocalQuery.run(rows, {...body.query, fields: undefined}) : undefined;
+    if(!res) throw new StandInError(400, 'INVALID_PAYLOAD', '"keys" or "query" is required.');
+    return res;
+  }
+
+  private findRow(rows:Record<string, any>[], id:string|number) {
+    const row = rows.find(r => String(r['id']) === String(id));
+    if(!row) throw FAILURES.permission(); //as directus: no difference between "not found" and "forbidden"
+    return row;
+  }
+
+  private insert(rows:Record<string, any>[], item:Record<string, any>) {
+    const row = {...item};
+    if(row['id'] === undefined || row['id'] === null) {
+      const numeric = rows.every(r => typeof r['id'] === 'number');
+      row['id'] = numeric ? rows.reduce((max, r) => Math.max(max, r['id']), 0) + 1 : randomUUID();
+    }
+    if(rows.some(r => String(r['id']) === String(row['id'])))
+      throw new StandInError(400, 'RECORD_NOT_UNIQUE', `Value for field "id" in collection has to be unique.`);
+    rows.push(row);
+    return row;
+  }
+
+  private project(row:Record<string, any>, query:I_DB_Query) {
+    return DB_LocalQuery.project({...row}, query.fields as string[]);
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // FILES
+
+  /**
+   * save multipart upload (file props go before the `file` field)
+   * @param id set to replace contents of existing file
+   */
+  private async upload(req:IncomingMessage, body:Buffer, user:I_DB_DirectusStandIn_User, id?:string) {
+    //multipart is parsed by fetch Request of node
+    const form = await new ((globalThis as any).Request)('http://localhost/files', {
+      method: 'POST', headers: {'content-type': String(req.headers['content-type'])}, body,
+    }).formData();
+    const rows = this.collections['directus_files'];
+    const file:Record<string, any> = id ? this.findRow(rows, id) : {id: randomUUID(), storage: 'local', uploaded_by: user.id};
+
+    for(const [key, value] of form.entries()) {
+      if(typeof value === 'string') { file[key] = value; continue; }
+      const contents = Buffer.from(await value.arrayBuffer());
+      const type = value.type || 'application/octet-stream';
+      this.assets.set(String(file['id']), {contents, type});
+      Object.assign(file, {
+        filename_disk: file['id'], filename_download: file['filename_download'] ?? value.name,
+        type, filesize: contents.length, uploaded_on: new Date().toISOString(),
+      });
+    }
+    if(!this.assets.has(String(file['id']))) throw new StandInError(400, 'INVALID_PAYLOAD', 'No file was included in the body.');
+    if(!id) rows.push(file);
+    return file;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // HELPERS
+
+  private static readBody(req:IncomingMessage):Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks:Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks)));
+      req.on('error', reject);
+    });
+  }
+
+  private static json(body:Buffer):any {
+    if(!body.length) return {};
+    try { return JSON.parse(body.toString('utf-8')); }
+    catch { throw new StandInError(400, 'INVALID_PAYLOAD', 'Invalid JSON body.'); }
+  }
+
+  private static isMultipart(req:IncomingMessage):boolean {
+    return String(req.headers['content-type']).startsWith('multipart/form-data');
+  }
+
+  /**
+   * convert query params made by SDK `queryToParams()` back to generic query
+   * (directus `deep` with `_` prefixed keys becomes `fieldQ`, `groupBy` becomes `group`)
+   */
+  static queryFromParams(params:URLSearchParams):I_DB_Query {
+    const q:I_DB_Query = {};
+    const json = (key:string) => JSON.parse(params.get(key) as string);
+    const list = (key:string) => (params.get(key) as string).split(',').filter(s => !!s);
+    try {
+      if(params.has('fields')) q.fields = list('fields');
+      if(params.has('filter')) q.filter = json('filter');
+      if(params.has('search')) q.search = params.get('search') as string;
+      if(params.has('sort')) q.sort = list('sort');
+      for(const key of ['limit', 'offset', 'page'] as const) if(params.has(key)) q[key] = Number(params.get(key));
+      if(params.has('deep')) q.fieldQ = DB_DirectusStandIn.deepToFieldQ(json('deep'));
+      if(params.has('aggregate')) q.aggregate = json('aggregate');
+      if(params.has('groupBy')) q.group = list('groupBy');
+    } catch {
+      throw new StandInError(400, 'INVALID_QUERY', 'Invalid query params.');
+    }
+    return q;
+  }
+
+  private static deepToFieldQ(deep:Record<string, any>):Record<string, I_DB_Query> {
+    const fieldQ:Record<string, I_DB_Query> = {};
+    for(const field in deep) {
+      const q:Record<string, any> = {};
+      const nested:Record<string, any> = {};
+      for(const key in deep[field]) {
+        if(key.startsWith('_')) q[key.substring(1)] = deep[field][key];
+        else nested[key] = deep[field][key];
+      }
+      if(Object.keys(nested).length) q['fieldQ'] = DB_DirectusStandIn.deepToFieldQ(nested);
+      fieldQ[field] = q;
+    }
+    return fieldQ;
+  }
+}
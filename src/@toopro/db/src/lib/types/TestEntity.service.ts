@@ -1,6 +1,9 @@
 import { DB_BrokerService } from '../broker.service.js';
 import { DB_EntityID } from './types.js';
 import DB_EntityServiceBase_Directus from '../service-directus.js';
+import DB_EntityServiceBase_Memory from '../service-memory.js';
+import DB_EntityServiceBase_MySQL from '../service-mysql.js';
+import DB_EntityServiceBase_SQLite from '../service-sqlite.js';
 import { DB_EntityBase } from './db-entity-base.js';
 import { DB_EntityService_Options } from './service-options.interface.js';
 
@@ -40,3 +43,24 @@ export class RolesEntityService extends DB_EntityServiceBase_Directus<IDrupalRol
     super('directus_roles', db);
   }
 }
+
+//same test entities but stored in memory (used in specs that need no remote server)
+export class TestMemoryEntityService extends DB_EntityServiceBase_Memory<ITestEntity> {
+  constructor(db:DB_BrokerService, opts?:DB_EntityService_Options) {
+    super('local:test', db, {casterOpts: {schema: {decimal: 'number'}}, ...opts});
+  }
+}
+
+//same test entities in SQL table (specs put local engine connection to the server `i`)
+export class TestMySQLEntityService extends DB_EntityServiceBase_MySQL<ITestEntity> {
+  constructor(db:DB_BrokerService, opts?:DB_EntityService_Options) {
+    super('sql:test', db, {casterOpts: {schema: {decimal: 'number'}}, ...opts});
+  }
+}
+
+export class TestSQLiteEntityService extends DB_EntityServiceBase_SQLite<ITestEntity> {
+  constructor(db:DB_BrokerService, opts?:DB_EntityService_Options) {
+    super('lite:test', db, {casterOpts: {schema: {decimal: 'number'}}, ...opts});
+    this.jsonFields = ['nested'];
+  }
+}
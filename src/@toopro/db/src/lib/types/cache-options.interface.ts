@@ -0,0 +1,100 @@
+import { I_DB_CachePersistOptions } from '../cache-storage.js';
+
+/**
+ * options of the entity service cache
+ * @see CacheBaseService.cacheEnable
+ */
+export interface I_DB_CacheOptions<T> {
+
+  /**
+   * create additional indexes in cache to fast find items by field value
+   * (one item by value, if there are several - they are overwritten)
+   */
+  indexBy?: Extract<keyof T, string>[],
+
+  /**
+   * non-unique indexes: all cached items by field value (e.g. status, owner, category),
+   * `getByField()` is answered from cache when all items with the value were loaded
+   * (by a query with only this field filter that returned less items than its limit)
+   */
+  multiIndexBy?: Extract<keyof T, string>[],
+
+  /**
+   * field name of the entity that is used as the cache key
+   * @default 'id'
+   */
+  idField?: string,
+
+  /**
+   * how many items allowed to store in cache? other will be auto-removed
+   * @default 100
+   */
+  maxItems?: number,
+
+  /**
+   * unique indexes by values of several fields joined with '+' (e.g. 'module+name'),
+   * queries with `_eq` filters of all the fields (like `getOneByFields({module, name})`) are answered from them
+   */
+  computedIndexBy?: string[],
+
+  /**
+   * how long results of list queries are valid in cache (ms), 0 to not cache them
+   * @default 60000
+   */
+  queryTTL?: number,
+
+  /**
+   * how long loaded items are valid in cache (ms),
+   * after that they are loaded from the server again
+   * @default 0 - items do not expire (only removed when there are more than `maxItems`)
+   */
+  ttl?: number,
+
+  /**
+   * how long cached nulls (we know that there is no such item) are valid (ms),
+   * usually shorter than `ttl`, because the item could be created by others
+   * @default same as `ttl`
+   */
+  nullTTL?: number,
+
+  /**
+   * return expired items from cache and reload them in background
+   * (next requests get fresh values without waiting for the server)
+   * - `true` - expired items are returned till they are reloaded
+   * - number - how long after `ttl` items could be returned (ms), older ones are loaded as usual
+   * @default false
+   */
+  staleWhileRevalidate?: boolean|number,
+
+  /**
+   * how often the background timer removes expired items and least recently used ones
+   * over `maxItems` (ms), stop it with `cacheMaintenanceStop()`
+   * @default 0 - no timer, the cache is cleaned only when new items are saved
+   */
+  recheckTimeout?: number,
+
+  /**
+   * share cache changes with other services of the same server and entity through the broker
+   * (and other processes if the broker has a transport, @see DB_BrokerService.cacheUseTransport):
+   * items changed or deleted by any of them are updated or removed in caches of all others
+   * @default false
+   */
+  shared?: boolean,
+
+  /**
+   * save the cache to persistent storage (localStorage, IndexedDB, file) and restore it when the cache is enabled,
+   * so reference data is not loaded again after page reload or restart
+   * @see DB_CacheStorage_Web, DB_CacheStorage_IndexedDB, DB_CacheStorage_File
+   */
+  persist?: I_DB_CachePersistOptions,
+
+  /**
+   * protect cached items from changes outside the cache (e.g. UI edits of loaded entities):
+   * - `'clone'` - `cacheGet()`, `cacheGetByField()`, `cacheQuery()` (and queries answered from cache) return
+   *   deep copies, loaded items are copied into cache after post-process (class instances keep their prototypes)
+   * - `'freeze'` - cached items and loaded items are deep-frozen after post-process and returned as is
+   *   (faster than clones, but changes of entities throw TypeError in strict mode)
+   * @default false - cached objects are returned, changing them changes the cache
+   */
+  immutable?: false|'clone'|'freeze',
+}
@@ -0,0 +1,51 @@
+/**
+ * counters of one cache lookup path
+ * @see I_DB_CacheStats
+ */
+export interface I_DB_CacheLookupStats {
+  /** items found in cache */
+  hits: number,
+
+  /** nulls found in cache: we know that there is no such item, so there is no request too */
+  nullHits: number,
+
+  /** nothing in cache, the item is loaded from the server */
+  misses: number,
+}
+
+/**
+ * statistics of the entity service cache
+ * @see CacheBaseService.cacheStats, DB_BrokerService.cacheStats
+ */
+export interface I_DB_CacheStats {
+
+  /**
+   * counters by lookup function: `cacheGet` (by ID), `cacheGetByField` (unique and computed indexes),
+   * `cacheQuery` (queries of the service: getById, getByField, query, etc.)
+   */
+  lookups: Record<'cacheGet'|'cacheGetByField'|'cacheQuery', I_DB_CacheLookupStats>,
+
+  /** share of lookups answered from cache (hits and null hits), 0..1 */
+  hitRate: number,
+
+  /** least recently used items removed because there were more than `maxItems` (too many means `maxItems` is too small) */
+  evictions: number,
+
+  /** items and nulls removed because their TTL ended */
+  expirations: number,
+
+  /** number of cached items (without nulls) */
+  items: number,
+
+  /** number of cached nulls (known missing items) */
+  nulls: number,
+
+  /** number of cached query results (lists) */
+  queries: number,
+
+  /** `maxItems` setting of the cache */
+  maxItems: number,
+
+  /** rough estimate of memory used by cached items and indexes (bytes, JSON size of items in UTF-16 and fixed size of entries) */
+  memory: number,
+}
@@ -0,0 +1,61 @@
+import { DB_EntityID } from './types.js';
+import { I_DB_Query } from './query.type.js';
+import { I_DB_EntityServiceBase } from './service-base.interface.js';
+
+/**
+ * operations of entity services that run through middleware
+ * (other functions like getById(), getByField(), queryPage() call them),
+ * operations called inside other operations (e.g. `update()` of `upsert()`) don't run it again
+ */
+export type DB_Operation = 'query'|'aggregate'|'add'|'update'|'upsert'|'delete'|'deleteIds'|'batchUpdate'|'batchDelete';
+
+/**
+ * context of the operation given to each middleware of the chain,
+ * changes of `query`, `payload`, `ids` and `args` before `next()` are the arguments of the operation
+ */
+export interface I_DB_OperationContext<T = Record<string, any>> {
+  readonly operation:DB_Operation,
+  /** entity name (without server prefix) */
+  readonly entity:string,
+  /** server name of the entity */
+  readonly server:string,
+  readonly service:I_DB_EntityServiceBase<T>,
+
+  /** query of `query`, `aggregate`, `batchDelete` and `batchUpdate` by query (query builders are given as query objects) */
+  query?:I_DB_Query<T>,
+  /** entities of `add`, changes of `update`, `upsert` and `batchUpdate` */
+  payload?:T|T[]|Partial<T>,
+  /** ID of `update` and `delete`, IDs of `deleteIds` and `batchUpdate` by IDs */
+  ids?:DB_EntityID|DB_EntityID[],
+  /** other arguments of the operation: `skipPostProcess` of `add` and `batchUpdate`, `limit` of `deleteIds` */
+  args:unknown[],
+
+  /**
+   * error of the operation after `next()`: thrown exception (it's thrown further)
+   * or DB_Error returned as error string (`lastError` of the service)
+   */
+  error?:unknown,
+  /** data of middleware for this operation (e.g. start time to log duration) */
+  state:Record<string, unknown>,
+}
+
+/**
+ * middleware of service operations (registered with `service.use()` or `dbBroker.use()` for all services),
+ * it gets the operation context and `next()` that runs the rest of the chain and the operation itself:
+ *  - change the input: change `ctx.query`/`ctx.payload` before `next()`
+ *  - short-circuit: return a result without `next()`
+ *  - transform the output: return changed result of `next()`
+ *  - observe errors: check `ctx.error` after `next()` or catch exceptions of it
+ *
+ * @return result of the operation (the same type as the operation returns)
+ * @example
+ * dbBroker.use(async (ctx, next) => {
+ *   const start = Date.now();
+ *   try { return await next(); }
+ *   finally {
+ *     if(ctx.error) report(ctx.error);
+ *     console.log(`${ctx.server}:${ctx.entity} ${ctx.operation} ${Date.now() - start}ms`);
+ *   }
+ * });
+ */
+export type DB_Middleware<T = any> = (ctx:I_DB_OperationContext<T>, next:() => Promise<unknown>) => Promise<unknown>;
@@ -0,0 +1,52 @@
+import { DBtype } from './types.js';
+import { I_DB_Query } from './query.type.js';
+
+/**
+ * converts generic query to the syntax of some DB/SDK
+ * @param q generic query object
+ * @param target name of the table/collection (needed for SQL, ignored by others)
+ * @return anything that SDK/driver of the DB accepts (query object, SQL statement, etc.)
+ */
+export type DB_QueryCompiler<R = unknown> = (q:I_DB_Query<any>, target?:string) => R;
+
+/**
+ * Registry of query compilers by DB type (dialect),
+ * used by `DB_Query.for()` to convert generic queries.
+ *
+ * Compilers for directus and memory are registered by default, mysql, postgres and sqlite ones
+ * by their SQL dialect modules (they are imported by SQL adaptors or from the package index),
+ * you can register your own (or replace existing) without changes in this library.
+ *
+ * @example
+ * DB_QueryCompilers.register('mongo', q => toMongoFind(q));
+ * const find = dbqb().equal('id', 1).for<MongoFind>('mongo');
+ */
+export class DB_QueryCompilers {
+
+  private static compilers = new Map<DBtype|string, DB_QueryCompiler>();
+
+  /** register compiler for the DB type (replaces existing one) */
+  static register<R>(type:DBtype|string, compiler:DB_QueryCompiler<R>):void {
+    DB_QueryCompilers.compilers.set(type, compiler);
+  }
+
+  static unregister(type:DBtype|string):boolean {
+    return DB_QueryCompilers.compilers.delete(type);
+  }
+
+  static has(type:DBtype|string):boolean {
+    return DB_QueryCompilers.compilers.has(type);
+  }
+
+  /** @throws Error if there is no compiler for the type */
+  static get<R = unknown>(type:DBtype|string):DB_QueryCompiler<R> {
+    const compiler = DB_QueryCompilers.compilers.get(type);
+    if(!compiler) throw new Error(`unknown query type: ${type}`);
+    return compiler as DB_QueryCompiler<R>;
+  }
+
+  /** list of DB types that have compilers */
+  static types():(DBtype|string)[] {
+    return Array.from(DB_QueryCompilers.compilers.keys());
+  }
+}
@@ -0,0 +1,100 @@
+import { DB_Filter, DB_FieldFilterOperator, I_DB_Query } from './query.type.js';
+
+/** data of the cursor: sort keys (`-` prefix for descending) and their values in the last row */
+interface I_DB_CursorData {
+  k:string[],
+  v:unknown[],
+}
+
+/**
+ * Keyset (cursor) pagination of queries.
+ *
+ * The query is sorted by the cursor key, and the next page is selected by the filter
+ * made from key values of the last row of the previous page (`id > 100` instead of `offset 100`),
+ * so pages don't skip or duplicate rows when the table is changed between requests.
+ *
+ * Cursors are opaque strings for consumers (base64url JSON of keys and values).
+ * `resolve()` converts cursor params of the query into generic `sort` and `filter`,
+ * so every query compiler (directus, SQL dialects, own ones) supports them without changes.
+ *
+ * @example
+ * const page = await service.queryPage(dbqb<IOrder>().cursorKey(['-date_created', 'id']).limit(50));
+ * const next = await service.queryPage(dbqb<IOrder>().after(page.cursor).limit(50));
+ */
+export class DB_QueryCursor {
+
+  /** make the cursor of the row (values of the key fields are taken from it) */
+  static encode(keys:string[], row:object):string {
+    const data:I_DB_CursorData = {k: keys, v: keys.map(key => (row as any)[DB_QueryCursor.field(key)] ?? null)};
+    const bytes = new TextEncoder().encode(JSON.stringify(data));
+    return btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''))
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  /** @throws Error if the cursor is not valid */
+  static decode(cursor:string):I_DB_CursorData {
+    let data:I_DB_CursorData;
+    try {
+      const bin = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+      data = JSON.parse(new TextDecoder().decode(Uint8Array.from(bin, c => c.charCodeAt(0))));
+    } catch {
+      throw new Error(`invalid query cursor: ${cursor}`);
+    }
+    if(!Array.isArray(data?.k) || !Array.isArray(data.v) || !data.k.length || data.k.length !== data.v.length
+      || data.k.some(k => typeof k !== 'string')) throw new Error(`invalid query cursor: ${cursor}`);
+    return data;
+  }
+
+  /** field name of the key (without direction prefix) */
+  static field(key:string):string {
+    return key.startsWith('-') || key.startsWith('+') ? key.substring(1) : key;
+  }
+
+  /**
+   * keys of the cursor pagination of the query
+   * @return keys or undefined if the query is not paginated by cursor
+   * @throws Error if the cursor is not valid or does not match `cursorKey`
+   */
+  static keys(query:I_DB_Query<any>):string[]|undefined {
+    if(!query.after) return query.cursorKey?.length ? query.cursorKey : undefined;
+    const keys = DB_QueryCursor.decode(query.after).k;
+    if(query.cursorKey?.length && query.cursorKey.join() !== keys.join()) {
+      throw new Error(`query cursor is made for other keys: ${keys.join()} (cursorKey: ${query.cursorKey.join()})`);
+    }
+    return keys;
+  }
+
+  /**
+   * convert cursor params (`cursorKey`, `after`) of the query into `sort` and `filter`
+   * (the query itself is not changed, same query is returned if it has no cursor params)
+   * @throws Error if the cursor is not valid
+   */
+  static resolve<Q extends I_DB_Query<any>>(query:Q):Q {
+    if(!query.after && !query.cursorKey) return query;
+    const keys = DB_QueryCursor.keys(query);
+    const res = {...query};
+    delete res.after; delete res.cursorKey;
+    if(!keys) return res;
+
+    res.sort = keys;
+    if(query.after) {
+      const after = DB_QueryCursor.afterFilter(keys, DB_QueryCursor.decode(query.after).v);
+      res.filter = query.filter ? {_and: [query.filter, after]} : after;
+    }
+    return res;
+  }
+
+  /**
+   * rows after the values of the keys:
+   * `k1 > v1 OR (k1 = v1 AND k2 > v2) OR ...` (`<` for descending keys)
+   */
+  private static afterFilter(keys:string[], values:unknown[]):DB_Filter<any> {
+    const groups = keys.map((key, i) => {
+      const cond:Record<string, DB_FieldFilterOperator> = {};
+      for(let j = 0; j < i; j++) cond[DB_QueryCursor.field(keys[j])] = {_eq: values[j] as any};
+      cond[DB_QueryCursor.field(key)] = {[key.startsWith('-') ? '_lt' : '_gt']: values[i]};
+      return cond as DB_Filter<any>;
+    });
+    return groups.length === 1 ? groups[0] : {_or: groups};
+  }
+}
@@ -0,0 +1,109 @@
+import { DB_QueryBuilder, dbqb } from './query.type.js';
+import { DBtype } from './types.js';
+import { DB_LocalQuery } from '../utils/local-query.js';
+import { DB_QueryCursor } from './query-cursor.js';
+import '../sql/dialect-sqlite.js'; //registers sqlite compiler
+
+interface IProduct { id:number, status:string, price:number, stock:number, featured:boolean, tags:{name:string}[], meta:{color:string, size:number, area:string} }
+
+describe('DB_QueryBuilder (@toopro/db)', () => {
+
+  it('should build OR and AND groups', () => {
+    const q = dbqb<IProduct>().equal('status', 'active').or(
+      dbqb<IProduct>().less('price', 10),
+      dbqb<IProduct>().and(dbqb<IProduct>().equal('featured', 1), {stock: {_gt: 0}}),
+    );
+    expect(q.q.filter).toEqual({
+      status: {_eq: 'active'},
+      _or: [{price: {_lt: 10}}, {_and: [{featured: {_eq: 1}}, {stock: {_gt: 0}}]}],
+    });
+    expect(dbqb().or(dbqb(), {}).q.filter).toBeUndefined(); //empty groups are ignored
+  });
+
+  it('should merge groups without clobbering existing conditions', () => {
+    const inner = dbqb<IProduct>().less('price', 10);
+    const q = dbqb<IProduct>()
+      .or(inner, dbqb<IProduct>().greater('stock', 5))
+      .or({status: {_eq: 'new'}}, {featured: {_eq: true}})
+      .and({price: {_gt: 1}})
+      .filtersAdd({_and: [{stock: {_lt: 100}}]})
+      .in('id', [1, 2]).filter('id', {_in: [3]});
+    expect(q.q.filter).toEqual({
+      _or: [{price: {_lt: 10}}, {stock: {_gt: 5}}],
+      _and: [{_or: [{status: {_eq: 'new'}}, {featured: {_eq: true}}]}, {price: {_gt: 1}}, {stock: {_lt: 100}}],
+      id: {_in: [3]}, //arrays are replaced, not merged by index
+    });
+    inner.greater('stock', 1);
+    expect(inner.q.filter).toEqual({price: {_lt: 10}, stock: {_gt: 1}});
+    expect((q.q.filter as any)._or[0]).toEqual({price: {_lt: 10}}); //groups are not changed by their builders
+  });
+
+  it('should keep groups in field queries and compiled queries', () => {
+    const q = dbqb<IProduct>().or(dbqb<IProduct>().equal('status', 'a'), dbqb<IProduct>().equal('status', 'b'))
+      .fieldQuery('tags', dbqb<{name:string}>().or({name: {_eq: 'x'}}, {name: {_eq: 'y'}}).limit(2));
+    const drcts = q.for(DBtype.directus);
+    expect(drcts.filter).toEqual({_or: [{status: {_eq: 'a'}}, {status: {_eq: 'b'}}]});
+    expect(drcts.deep).toEqual({tags: {_limit: 2, _filter: {_or: [{name: {_eq: 'x'}}, {name: {_eq: 'y'}}]}}});
+    expect(q.for(DBtype.sqlite, 'product').sql).toBe('SELECT * FROM "product" WHERE ("status" = ? OR "status" = ?) LIMIT 100');
+
+    const items = [
+      {id: 1, status: 'a', tags: [{name: 'x'}, {name: 'z'}]},
+      {id: 2, status: 'b', tags: []},
+      {id: 3, status: 'c', tags: []},
+    ];
+    const res = DB_LocalQuery.run(items, q.for(DBtype.memory) as any);
+    expect(res).toEqual([{id: 1, status: 'a', tags: [{name: 'x'}]}, {id: 2, status: 'b', tags: []}]);
+  });
+
+  it('should have methods for all filter operators with deep paths', () => {
+    const q = dbqb<IProduct>()
+      .between('price', 1, 5).notBetween<2>('meta.size', 7, 9)
+      .isEmpty('status').isNotEmpty<2>('meta.color')
+      .notContains('status', 'x').startsWith<2>('meta.color', 'r').notEndsWith<2>('meta.color', 'd', true)
+      .in<2>('meta.size', [1, 2]).isNull<2>('meta.area').greaterOrEqual<2>('meta.size', 0).less('stock', 3);
+    expect(q.q.filter).toEqual({
+      price: {_between: [1, 5]},
+      status: {_empty: true, _ncontains: 'x'},
+      stock: {_lt: 3},
+      meta: {
+        size: {_nbetween: [7, 9], _in: [1, 2], _gte: 0},
+        color: {_nempty: true, _starts_with: 'r', _niends_with: 'd'},
+        area: {_null: true},
+      },
+    });
+
+    const geo = '{"type":"Point","coordinates":[1,2]}';
+    expect(dbqb<IProduct>().intersects<2>('meta.area', geo).notIntersects('status', geo, true).q.filter)
+      .toEqual({meta: {area: {_intersects: geo}}, status: {_nintersects_bbox: geo}});
+    expect(dbqb<IProduct>().startsWith('status', 'a', true).endsWith('status', 'b').notStartsWith('status', 'c').q.filter)
+      .toEqual({status: {_istarts_with: 'a', _ends_with: 'b', _nstarts_with: 'c'}});
+
+    //same rules in the local evaluation
+    const items = [{id: 1, price: 2, status: 'abc'}, {id: 2, price: 7, status: ''}, {id: 3, price: 4, status: 'Xyz'}];
+    const local = (qb:DB_QueryBuilder<any>) => DB_LocalQuery.run(items, qb.q)?.map(i => i.id);
+    expect(local(dbqb().between('price', 1, 5).isNotEmpty('status'))).toEqual([1, 3]);
+    expect(local(dbqb().notStartsWith('status', 'x', true).notBetween('price', 3, 10))).toEqual([1]);
+  });
+
+  it('should compile cursor pagination to sort and filter', () => {
+    const cursor = DB_QueryCursor.encode(['-price', 'id'], {id: 7, price: 9.5, status: 'ünïcode'});
+    expect(cursor).toMatch(/^[\w-]+$/);
+    expect(DB_QueryCursor.decode(cursor)).toEqual({k: ['-price', 'id'], v: [9.5, 7]});
+
+    const q = dbqb<IProduct>().equal('status', 'a').after(cursor).limit(10);
+    expect(q.for(DBtype.directus)).toEqual({
+      limit: 10, sort: ['-price', 'id'],
+      filter: {_and: [{status: {_eq: 'a'}}, {_or: [{price: {_lt: 9.5}}, {price: {_eq: 9.5}, id: {_gt: 7}}]}]},
+    });
+    expect(q.for(DBtype.sqlite, 'product')).toEqual({
+      sql: 'SELECT * FROM "product" WHERE ("status" = ? AND ("price" < ? OR "price" = ? AND "id" > ?)) ORDER BY "price" DESC, "id" ASC LIMIT 10',
+      params: ['a', 9.5, 9.5, 7],
+    });
+    expect(dbqb<IProduct>().cursorKey('id').after(null).for(DBtype.memory)).toEqual({limit: 100, sort: ['id']});
+    expect(q.q.after).toBe(cursor); //builder query is not changed
+
+    expect(() => dbqb().after('not a cursor').for()).toThrow('invalid query cursor');
+    expect(() => dbqb().cursorKey('id').after(cursor).for()).toThrow('other keys');
+  });
+
+});
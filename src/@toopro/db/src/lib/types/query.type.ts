@@ -1,4 +1,7 @@
 import { DB_EntityID, DBtype } from './types.js';
+import { DB_QueryCompilers } from './query-compiler.js';
+import { DB_QueryCursor } from './query-cursor.js';
+import { I_DB_SqlStatement } from '../sql/sql.types.js';
 
 /**
  * Interface representing a database query object.
@@ -14,9 +17,12 @@ import { DB_EntityID, DBtype } from './types.js';
  * @property [sort] - Sort order for the results.
  * @property [offset] - Offset for pagination.
  * @property [page] - Page number for pagination.
+ * @property [cursorKey] - Sort keys of the keyset (cursor) pagination.
+ * @property [after] - Cursor of the last row of the previous page.
  * @property [group] - Group by fields.
  * @property [aggregate] - Aggregate functions to be applied.
  * @property [skipCache] - Set true to skip cache and request from server.
+ * @property [skipCacheSave] - Set true to not save results to cache.
  */
 export interface I_DB_Query<T=object> {
   /**
@@ -49,12 +55,48 @@ export interface I_DB_Query<T=object> {
   offset?:number,
   page?:number,
 
+  /**
+   * keyset (cursor) pagination: the query is sorted by these keys (`-` prefix for descending),
+   * they must identify rows uniquely, so add ID as the last key for non-unique fields:
+   * `['-date_created', 'id']`. Services use `idFieldName` by default (see `queryPage()`).
+   * Compiled to `sort` and `filter` by `for()` and services (`sort` of the query is replaced).
+   */
+  cursorKey?:string[],
+  /** opaque cursor of the last row of the previous page (`cursor` of `queryPage()` results) */
+  after?:string,
+
   group?:string[],
   aggregate?:DB_Aggregate,
 
   //set true if you want to skip cache and even we have some need to request from server
   skipCache?:boolean
-  //TODO: maybe we need to control do we need to save results to cache or not and also do we need to load from remote - its two different things
+  //set true to not save results to cache (one-time reads of big collections, etc.)
+  skipCacheSave?:boolean
+}
+
+/**
+ * page of the keyset (cursor) pagination
+ * @property items - entities of the page
+ * @property cursor - cursor to request the next page (`after`), null if there are no more items
+ */
+export interface I_DB_QueryPage<T> {
+  items:T[],
+  cursor:string|null,
+}
+
+/**
+ * options of paged loading with `queryPages()` and `iterate()`
+ * @property [pageSize] - items loaded by one request (100 by default)
+ * @property [mode] - `keyset` loads pages by `cursorKey` of the query or ID field (`id > last loaded id`, sorted by ID),
+ *    it's fast on big tables and doesn't skip items if some were deleted while iterating,
+ *    `offset` loads pages by offset and keeps the sort of the query.
+ *    By default keyset is used if the query has cursor params or no sort (and defaultQuery has no sort).
+ * @property [cache] - save loaded items to cache (not saved by default to not flood it)
+ */
+export interface I_DB_PageOptions {
+  pageSize?:number,
+  mode?:'keyset'|'offset',
+  cache?:boolean,
 }
 
 export interface I_DB_Query_Directus<T> extends I_DB_Query<T> {
@@ -92,20 +134,37 @@ export interface DB_QueryBuilder<T=object> {
 
   equal<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string , value:string|number):DB_QueryBuilder<T>;
   not  <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, value:string|number):DB_QueryBuilder<T>;
-  notIn(field:DB_FieldPath<T,1>|string, values:string[]|number[]):DB_QueryBuilder<T>;
-  in(field:Extract<keyof T,string>, values:DB_EntityID[]):DB_QueryBuilder<T>;
-  isNull(field:Extract<keyof T,string>):DB_QueryBuilder<T>;
-  isNotNull(field:Extract<keyof T,string>):DB_QueryBuilder<T>;
-
-  greater(field:Extract<keyof T,string>, than:string|number):DB_QueryBuilder<T>;
-  greaterOrEqual(field:Extract<keyof T,string>, than:string|number):DB_QueryBuilder<T>;
-  less(field:Extract<keyof T,string>, than:string|number):DB_QueryBuilder<T>;
-  lessOrEqual(field:Extract<keyof T,string>, than:string|number):DB_QueryBuilder<T>;
-  contains<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, value:string, caseInsensitive?:boolean):DB_QueryBuilder<T>;
+  notIn<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, values:string[]|number[]):DB_QueryBuilder<T>;
+  in   <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, values:DB_EntityID[]):DB_QueryBuilder<T>;
+  isNull   <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string):DB_QueryBuilder<T>;
+  isNotNull<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string):DB_QueryBuilder<T>;
+  isEmpty   <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string):DB_QueryBuilder<T>;
+  isNotEmpty<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string):DB_QueryBuilder<T>;
+
+  greater       <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, than:string|number):DB_QueryBuilder<T>;
+  greaterOrEqual<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, than:string|number):DB_QueryBuilder<T>;
+  less          <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, than:string|number):DB_QueryBuilder<T>;
+  lessOrEqual   <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, than:string|number):DB_QueryBuilder<T>;
+  between       <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, from:string|number, to:string|number):DB_QueryBuilder<T>;
+  notBetween    <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, from:string|number, to:string|number):DB_QueryBuilder<T>;
+
+  contains     <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, value:string, caseInsensitive?:boolean):DB_QueryBuilder<T>;
+  notContains  <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, value:string):DB_QueryBuilder<T>;
+  startsWith   <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, value:string, caseInsensitive?:boolean):DB_QueryBuilder<T>;
+  notStartsWith<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, value:string, caseInsensitive?:boolean):DB_QueryBuilder<T>;
+  endsWith     <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, value:string, caseInsensitive?:boolean):DB_QueryBuilder<T>;
+  notEndsWith  <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, value:string, caseInsensitive?:boolean):DB_QueryBuilder<T>;
+
+  intersects   <Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, geometry:string, bbox?:boolean):DB_QueryBuilder<T>;
+  notIntersects<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, geometry:string, bbox?:boolean):DB_QueryBuilder<T>;
 
   limit(limit?:number):DB_QueryBuilder<T>;
   sort(sort:string[]|string):DB_QueryBuilder<T>;
   offset(offset?: number): DB_QueryBuilder<T>;
+  /** keys of the keyset (cursor) pagination, `-` prefix for descending */
+  cursorKey(keys:string|string[]):DB_QueryBuilder<T>;
+  /** request the page after the cursor (null or undefined is ignored - first page) */
+  after(cursor:string|null|undefined):DB_QueryBuilder<T>;
 
   fieldQuery<NT = object>(field:Extract<keyof T, string>, q:DB_QueryBuilder<NT>|DB_Query<NT>):DB_QueryBuilder<T>;
 
@@ -113,10 +172,28 @@ export interface DB_QueryBuilder<T=object> {
   filtersGet():DB_Filter<T>;
   filter<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, condition:DB_FieldFilterOperator):DB_QueryBuilder<T>;
 
+  /** aggregate the fields by the function (added to already aggregated fields), `'*'` to count all rows */
+  aggregate(fn:keyof DB_Aggregate, fields:string|string[]):DB_QueryBuilder<T>;
+  /** group aggregated results by the fields */
+  groupBy<Depth extends number = 1>(fields:DB_FieldPath<T,Depth>[]|string[]|DB_FieldPath<T,Depth>):DB_QueryBuilder<T>;
+
+  /** at least one of the groups must match (`_or`), groups are builders or filter objects */
+  or(...groups:(DB_QueryBuilder<T>|DB_Filter<T>)[]):DB_QueryBuilder<T>;
+  /** all the groups must match (`_and`), groups are builders or filter objects */
+  and(...groups:(DB_QueryBuilder<T>|DB_Filter<T>)[]):DB_QueryBuilder<T>;
+
   skipCache(skip:boolean|undefined):DB_QueryBuilder<T>;
+  /** do not save results of the query to cache */
+  skipCacheSave(skip?:boolean):DB_QueryBuilder<T>;
 
-  /** compile final query object for directus or mysql */
-  for(qType?:DBtype):I_DB_Query<T>;
+  /**
+   * compile final query for the DB type with compiler from DB_QueryCompilers registry
+   * @see DB_QueryCompilers
+   */
+  for(qType?:DBtype.directus):I_DB_Query_Directus<T>;
+  for(qType:DBtype.memory):I_DB_Query<T>;
+  for(qType:DBtype.mysql|DBtype.postgres|DBtype.sqlite, table:string):I_DB_SqlStatement;
+  for<R = unknown>(qType:DBtype|string, target?:string):R;
 }
 
 /**
@@ -178,6 +255,39 @@ export class DB_Query<T> implements DB_QueryBuilder<T> {
     return this.query.filter || {} as DB_Filter<T>;
   }
 
+  /**
+   * add a group of conditions where at least one of them must match,
+   * other conditions of the query are still AND-ed with the group.
+   * Groups can be nested, empty groups are ignored.
+   * @param groups query builders (only their filters are used) or filter objects
+   * @example
+   * //status = 'active' AND (price < 10 OR (featured = 1 AND stock > 0))
+   * dbqb<IProduct>().equal('status', 'active').or(
+   *   dbqb<IProduct>().less('price', 10),
+   *   dbqb<IProduct>().equal('featured', 1).greater('stock', 0),
+   * );
+   */
+  or(...groups:(DB_QueryBuilder<T>|DB_Filter<T>)[]):DB_QueryBuilder<T> {
+    return this.logicalGroup('_or', groups);
+  }
+
+  /**
+   * add a group of conditions where all of them must match,
+   * useful inside `or()` or to add several conditions for the same field
+   * @see or
+   */
+  and(...groups:(DB_QueryBuilder<T>|DB_Filter<T>)[]):DB_QueryBuilder<T> {
+    return this.logicalGroup('_and', groups);
+  }
+
+  private logicalGroup(op:'_or'|'_and', groups:(DB_QueryBuilder<T>|DB_Filter<T>)[]):DB_QueryBuilder<T> {
+    const filters = groups
+      .map(g => (g as DB_QueryBuilder<T>).is_builder ? (g as DB_QueryBuilder<T>).filtersGet() : g as DB_Filter<T>)
+      .filter(f => f && Object.keys(f).length > 0);
+    if(!filters.length) return this;
+    return this.filtersAdd({[op]: filters} as DB_LogicalFilter<T>);
+  }
+
   equal<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, value: string | number): DB_QueryBuilder<T> {
     this.filter<Depth>(field, { _eq: value });
     return this;
@@ -187,31 +297,51 @@ export class DB_Query<T> implements DB_QueryBuilder<T> {
     return this;
   }
 
-  isNull(field: Extract<keyof T, string>): DB_QueryBuilder<T> {
-    this.filter(field, { _null: true });
+  isNull<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _null: true });
+    return this;
+  }
+
+  isNotNull<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _nnull: true });
     return this;
   }
 
-  isNotNull(field: Extract<keyof T, string>): DB_QueryBuilder<T> {
-    this.filter(field, { _nnull: true });
+  /** field is null or empty string (or empty array for relations) */
+  isEmpty<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _empty: true });
+    return this;
+  }
+  isNotEmpty<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _nempty: true });
     return this;
   }
 
-  greater(field: Extract<keyof T, string>, than: string | number): DB_QueryBuilder<T> {
-    this.filter(field, { _gt: than });
+  greater<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, than: string | number): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _gt: than });
     return this;
   }
-  greaterOrEqual(field: Extract<keyof T, string>, than: string | number): DB_QueryBuilder<T> {
-    this.filter(field, { _gte: than });
+  greaterOrEqual<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, than: string | number): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _gte: than });
     return this
   }
 
-  less(field: Extract<keyof T, string>, than: string | number): DB_QueryBuilder<T> {
-    this.filter(field, { _lt: than });
+  less<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, than: string | number): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _lt: than });
     return this;
   }
-  lessOrEqual(field: Extract<keyof T, string>, than: string | number): DB_QueryBuilder<T> {
-    this.filter(field, { _lte: than });
+  lessOrEqual<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, than: string | number): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _lte: than });
+    return this;
+  }
+
+  /** field value is in the range, including both ends */
+  between<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, from: string | number, to: string | number): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _between: [from, to] });
+    return this;
+  }
+  notBetween<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, from: string | number, to: string | number): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _nbetween: [from, to] });
     return this;
   }
 
@@ -219,6 +349,43 @@ export class DB_Query<T> implements DB_QueryBuilder<T> {
     this.filter<Depth>(field, caseInsensitive ? { _icontains: value } : { _contains: value });
     return this;
   }
+  notContains<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, value: string): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, { _ncontains: value });
+    return this;
+  }
+
+  startsWith<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, value: string, caseInsensitive = false): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, caseInsensitive ? { _istarts_with: value } : { _starts_with: value });
+    return this;
+  }
+  notStartsWith<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, value: string, caseInsensitive = false): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, caseInsensitive ? { _nistarts_with: value } : { _nstarts_with: value });
+    return this;
+  }
+
+  endsWith<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, value: string, caseInsensitive = false): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, caseInsensitive ? { _iends_with: value } : { _ends_with: value });
+    return this;
+  }
+  notEndsWith<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, value: string, caseInsensitive = false): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, caseInsensitive ? { _niends_with: value } : { _nends_with: value });
+    return this;
+  }
+
+  /**
+   * geometry field intersects the given one
+   * @param field
+   * @param geometry GeoJSON string
+   * @param bbox compare bounding boxes only (faster, less precise)
+   */
+  intersects<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, geometry: string, bbox = false): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, bbox ? { _intersects_bbox: geometry } : { _intersects: geometry });
+    return this;
+  }
+  notIntersects<Depth extends number = 1>(field: DB_FieldPath<T, Depth>|string, geometry: string, bbox = false): DB_QueryBuilder<T> {
+    this.filter<Depth>(field, bbox ? { _nintersects_bbox: geometry } : { _nintersects: geometry });
+    return this;
+  }
 
   /**
    * base function to put condition data in the right place of field filter hierarchy.
@@ -249,29 +416,37 @@ export class DB_Query<T> implements DB_QueryBuilder<T> {
   }
 
   /**
-   * combine two deep objects to one merging nested props too
+   * combine two deep objects to one merging nested props too,
+   * arrays (`_in` values, etc.) are replaced, logical groups are kept:
+   * `_and` lists are concatenated, new `_or` is AND-ed with existing one
    * @param target
    * @param source
+   * @return new object, arguments are not modified (they could be filters of other builders)
    * @private
    */
   private deepMerge(target: any, source: any): any {
+    const ret = {...target};
     for (const key of Object.keys(source)) {
-      if (source[key] instanceof Object && key in target) {
-        Object.assign(source[key], this.deepMerge(target[key], source[key]));
-      }
+      const value = source[key];
+      if (key === '_and' && Array.isArray(ret._and)) ret._and = [...ret._and, ...value];
+      else if (key === '_or' && Array.isArray(ret._or)) ret._and = [...(ret._and ?? []), {_or: value}];
+      else if (DB_Query.isObject(value) && DB_Query.isObject(ret[key])) ret[key] = this.deepMerge(ret[key], value);
+      else ret[key] = value;
     }
-    Object.assign(target || {}, source);
-    return target;
+    return ret;
+  }
+
+  private static isObject(v:unknown):v is Record<string, any> {
+    return v !== null && typeof v === 'object' && !Array.isArray(v);
   }
 
-  notIn(field:DB_FieldPath<T>|string, value:string[]|number[]):DB_QueryBuilder<T> {
-    this.filter(field, {_nin:value} );
+  notIn<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string, value:string[]|number[]):DB_QueryBuilder<T> {
+    this.filter<Depth>(field, {_nin:value} );
     return this;
   }
 
-  in(field:Extract<keyof T,string> , value:DB_EntityID[]):DB_QueryBuilder<T> {
-    if(!this.query.filter) this.query.filter = {} as DB_Filter<T>;
-    (this.query.filter as any)[field as string] = {_in:value};
+  in<Depth extends number = 1>(field:DB_FieldPath<T,Depth>|string , value:DB_EntityID[]):DB_QueryBuilder<T> {
+    this.filter<Depth>(field, {_in:value} );
     return this;
   }
 
@@ -354,26 +529,83 @@ export class DB_Query<T> implements DB_QueryBuilder<T> {
     return this;
   }
 
+  /**
+   * aggregate fields by the function, results are rows with
+   * group fields and values by function and field (not entities)
+   * @param fn aggregate function
+   * @param fields field names or `'*'` for count of all rows
+   * @example
+   * dbqb<IOrder>().aggregate('count', '*').aggregate('sum', ['total']).groupBy('status');
+   * //rows: [{status:'paid', count:{'*':10}, sum:{total:1200}}, ...]
+   * @see DB_EntityService_Base.aggregate
+   */
+  aggregate(fn:keyof DB_Aggregate, fields:string|string[]):DB_QueryBuilder<T> {
+    if(!this.query.aggregate) this.query.aggregate = {};
+    this.query.aggregate[fn] = [...(this.query.aggregate[fn] ?? []), ...(typeof fields === 'string' ? [fields] : fields)];
+    return this;
+  }
+
+  groupBy<Depth extends number = 1>(fields:DB_FieldPath<T,Depth>[]|string[]|DB_FieldPath<T,Depth>):DB_QueryBuilder<T> {
+    this.query.group = typeof fields === 'string' ? [fields] : fields;
+    return this;
+  }
+
   skipCache(skip:boolean|undefined=true):DB_QueryBuilder<T> {
     if(skip !== undefined) this.query.skipCache = skip;
     return this;
   }
 
+  skipCacheSave(skip=true):DB_QueryBuilder<T> {
+    this.query.skipCacheSave = skip;
+    return this;
+  }
+
   offset(offset?: number): DB_QueryBuilder<T> {
     if (offset !== undefined) this.query.offset = offset;
     return this;
   }
 
+  /**
+   * sort and paginate the query by the keys (keyset pagination),
+   * keys must identify rows uniquely (add ID as the last one if needed)
+   * @see DB_QueryCursor
+   * @example
+   * dbqb<IOrder>().cursorKey(['-date_created', 'id']).limit(50);
+   */
+  cursorKey(keys:string|string[]):DB_QueryBuilder<T> {
+    this.query.cursorKey = typeof keys === 'string' ? [keys] : keys;
+    return this;
+  }
+
+  after(cursor:string|null|undefined):DB_QueryBuilder<T> {
+    if(cursor) this.query.after = cursor;
+    return this;
+  }
+
   //////////////////////////////////////////////////////////////////////////////
   //////////////////////////////////////////////////////////////////////////////
 
   /** convert a query object to given syntax
    * that can be directly used in database SDK
+   * (compiler for the type is taken from DB_QueryCompilers registry,
+   * cursor params are converted to generic sort and filter before it)
+   * @param qType DB type (dialect), DB_Query.defaultDBType if not given
+   * @param target table name for SQL dialects
+   * @example
+   * dbqb().equal('id', 1).for(DBtype.mysql, 'product'); // {sql:'SELECT * FROM `product` WHERE `id` = ? LIMIT 100', params:[1]}
    * */
-  for(qType?:DBtype):I_DB_Query_Directus<T> {
-    if(!qType) qType = DB_Query.defaultDBType;
-    if(qType === DBtype.directus)  return this._for_drcts(this.query);
-    throw new Error(`unknown query type: ${qType}`);
+  for(qType?:DBtype.directus):I_DB_Query_Directus<T>;
+  for(qType:DBtype.memory):I_DB_Query<T>;
+  for(qType:DBtype.mysql|DBtype.postgres|DBtype.sqlite, table:string):I_DB_SqlStatement;
+  for<R = unknown>(qType:DBtype|string, target?:string):R;
+  for(qType?:DBtype|string, target?:string):unknown {
+    return DB_QueryCompilers.get(qType || DB_Query.defaultDBType)(DB_QueryCursor.resolve(this.query), target);
+  }
+
+  //register compilers of the DB types that need no extra code (SQL dialects register themselves in sql/dialect-*.js)
+  static {
+    DB_QueryCompilers.register(DBtype.directus, q => new DB_Query(q)._for_drcts(q));
+    DB_QueryCompilers.register(DBtype.memory, q => ({...q})); //memory adaptor works with generic queries
   }
 
   /**
@@ -428,6 +660,18 @@ export type DB_Aggregate = {
   max?: string[];
 }
 
+/** value of aggregate function (min/max of dates and strings are strings) */
+export type DB_AggregateValue = number|string|null;
+
+/**
+ * one row of aggregated results: values of group fields and
+ * aggregated values by function and field, same for all adaptors
+ * @example {status:'paid', count:{'*':10}, sum:{total:1200}}
+ */
+export type DB_AggregateResult<T=object> = Partial<T> & {
+  [fn in keyof DB_Aggregate]?: Record<string, DB_AggregateValue>;
+}
+
 // FILTER
 
 export type DB_Filter<T=object> = DB_LogicalFilter<T> | DB_FieldFilter<T>;
@@ -1,8 +1,9 @@
 import { DB_EntityID, DB_VerboseLevel, EntityOrArray, IsLoginStatus } from './types.js';
-import { DB_QueryBuilder, I_DB_Query } from './query.type.js';
+import { DB_AggregateResult, DB_Filter, DB_QueryBuilder, I_DB_PageOptions, I_DB_Query, I_DB_QueryPage } from './query.type.js';
 import { DB_EntityBase } from './db-entity-base.js';
 import { DB_Error } from './db.error.js';
 import { DB_EntityService_Options } from './service-options.interface.js';
+import { DB_Middleware } from './middleware.interface.js';
 
 /**
  * Base interface for all DB Entity Services
@@ -210,7 +211,6 @@ export interface I_DB_EntityServiceBase<T> extends DB_EntityService_Options {
    *   - you should use `this.lastErrorReset()` at the start of the function to reset last error
    *   - remember to check cache (if enabled) before making request to server
    *   - you should check a query for nested entities with `this.checkNestedEntities(fields)`
-   *   - you should apply `postLoadModifier` to the result of the query
    *   - you should save results to cache (if enabled)
    *
    * @return array of items.
@@ -233,6 +233,34 @@ export interface I_DB_EntityServiceBase<T> extends DB_EntityService_Options {
    */
   queryOne(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<T|null>,
 
+  /**
+   * aggregated values of entities (count, sum, avg, min, max...) grouped by fields.
+   * Results are not entities, so they bypass the cache and the caster.
+   *
+   * @param query must have `aggregate`, could have `group`, `filter`, `sort`, `limit`.
+   *    Filter of `defaultQuery` is used if not set, limit is `-1` (all groups) if not set.
+   * @return aggregated rows, for example `[{status:'paid', count:{'*':10}, sum:{total:1200}}]`
+   *    (even if there were some error empty array, check `hadError()`)
+   * @throws DB_Error if something went wrong and ✓`throwErrors`
+   */
+  aggregate<R extends object = DB_AggregateResult<T>>(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<R[]>,
+
+  /**
+   * number of entities that match the filter (without loading them)
+   * @param filter filter object or query builder (only its filter is used)
+   * @return count (0 if there were some error, check `hadError()`)
+   */
+  count(filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<number>,
+
+  /** sum of the field values of entities that match the filter, `null` if nothing to sum (or error) */
+  sum(field:Extract<keyof T, string>|string, filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<number|null>,
+  /** average of the field values of entities that match the filter, `null` if no values (or error) */
+  avg(field:Extract<keyof T, string>|string, filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<number|null>,
+  /** min value of the field (numbers, dates or strings), `null` if no values (or error) */
+  min<TF extends string|number = number>(field:Extract<keyof T, string>|string, filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<TF|null>,
+  /** max value of the field (numbers, dates or strings), `null` if no values (or error) */
+  max<TF extends string|number = number>(field:Extract<keyof T, string>|string, filter?:DB_Filter<T>|DB_QueryBuilder<T>):Promise<TF|null>,
+
   /**
    * Add one or multiple entities.
    * @param entityOrArray A single entity or an array of entities to add.
@@ -271,14 +299,14 @@ export interface I_DB_EntityServiceBase<T> extends DB_EntityService_Options {
    * Update ALL entities with `ids` with the SAME data from `updates` object.
    * Use SDK/adaptor function that allow to run this code faster to update many items fast.
    *
-   * !!fut: we also can use query instead of ids to faster apply value to query
-   *
    * @param updates field=value hash of values that have to be written to all entities from `ids` array.
-   * @param ids array of entity IDs that will have updates applied (same values for all entities in this list)
+   * @param ids array of entity IDs that will have updates applied (same values for all entities in this list),
+   *    or query (`limit` is required) to update all entities that match it, cached entities that
+   *    match the query filter are removed from cache (all cache if the filter can't be evaluated locally)
    * @param skipPostProcess Skip post process after adding entities. When you don't care about results (saving to cache, casting values, deep loaders, etc).
    * @throws DB_Error if something went wrong and ✓`throwErrors`
    */
-  batchUpdate(updates: Partial<T>, ids: DB_EntityID[], skipPostProcess?: boolean): Promise<T[] | string>;
+  batchUpdate(updates: Partial<T>, ids: DB_EntityID[]|I_DB_Query<T>|DB_QueryBuilder<T>, skipPostProcess?: boolean): Promise<T[] | string>;
 
   /**
    * delete one item by ID
@@ -299,12 +327,62 @@ export interface I_DB_EntityServiceBase<T> extends DB_EntityService_Options {
   /**
    * Delete items by query builder. Be careful with this function,
    * because it can delete all items from the table.
+   * Cached items that match the query filter are removed from cache
+   * (all cache if the filter can't be evaluated locally).
    * @param query for example `owner=123` or `age>18` to delete all items that match this query
    * @throws DB_Error if something went wrong and ✓`throwErrors`
    */
   batchDelete(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<boolean|string>,
 
-  //TODO: loadByParts
+  /**
+   * one page of keyset (cursor) pagination: the query is sorted by `cursorKey` (`idFieldName` by default),
+   * and the returned cursor is used as `after` of the next page query, so pages don't skip or duplicate
+   * entities when the collection is changed between requests. Key fields are added to query fields if needed.
+   *
+   * @example
+   * let page = await service.queryPage(dbqb<IOrder>().cursorKey(['-date_created', 'id']).limit(50));
+   * while(page.cursor) page = await service.queryPage(dbqb<IOrder>().after(page.cursor).limit(50));
+   * @return entities and cursor of the next page (null if there are no more entities or error, check `hadError()`)
+   * @throws DB_Error if something went wrong and ✓`throwErrors`
+   */
+  queryPage(query:I_DB_Query<T>|DB_QueryBuilder<T>):Promise<I_DB_QueryPage<T>>,
+
+  /**
+   * load all entities that match the query page by page, until the server has no more of them
+   * (`getAll()` and `query()` return only one page limited by `limit`).
+   * Query params of `defaultQuery` are used, deep fields are loaded and caster applied for each page,
+   * limit, offset and page of the query are replaced by paging.
+   *
+   * `keyset` mode loads pages with `queryPage()`, so key fields are added to query fields if needed.
+   * Loading stops on error (check `hadError()`).
+   *
+   * @example
+   * for await (const page of service.queryPages(dbqb<ITx>().equal('status', 'new'), {pageSize: 1000})) {
+   *   await process(page);
+   * }
+   * @throws DB_Error if something went wrong and ✓`throwErrors`
+   */
+  queryPages(query?:I_DB_Query<T>|DB_QueryBuilder<T>, options?:I_DB_PageOptions):AsyncIterable<T[]>,
+
+  /**
+   * same as `queryPages()` but yields entities one by one
+   * @example
+   * for await (const tx of service.iterate({filter: {status: {_eq: 'new'}}})) total += tx.amount;
+   */
+  iterate(query?:I_DB_Query<T>|DB_QueryBuilder<T>, options?:I_DB_PageOptions):AsyncIterable<T>,
+
+  /**
+   * add middleware to operations of the service (`query`, `aggregate`, `add`, `update`, `upsert`, `delete`, `deleteIds`, `batch*`),
+   * it runs after middleware of the broker (`dbBroker.use()`) in order of adding
+   * @example
+   * service.use(async (ctx, next) => {
+   *   if(ctx.operation === 'query') ctx.query = {...ctx.query, filter: {...ctx.query?.filter, tenant: {_eq: tenantId}}};
+   *   return await next();
+   * });
+   * @see DB_Middleware
+   */
+  use(...middleware:DB_Middleware<T>[]):this,
+
   //TODO: load
 
   // SERVER IMPLEMENTATION FUNCTIONS
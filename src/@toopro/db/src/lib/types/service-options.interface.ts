@@ -1,5 +1,6 @@
 import { DB_FieldPath } from './query.type.js';
 import { DB_VerboseLevel } from './types.js';
+import { DB_Middleware } from './middleware.interface.js';
 import { TpsCasterOptions } from '@toopro/utils';
 
 export interface DB_EntityService_Options<T extends object = object> {
@@ -82,4 +83,29 @@ export interface DB_EntityService_Options<T extends object = object> {
    * @see DB_BrokerService.serviceByEntity
    */
   deepFields?: Partial<Record<DB_FieldPath<T, 1>, string>>,
+
+  /**
+   * collect `getById()` (and `getRealItem()`) calls of different callers
+   * made at the same time and load them with one `getByIds()` request (`_in` filter).
+   * - `true` - calls made in the same tick are batched (till the microtask queue runs)
+   * - number - calls made in this window (ms) after the first call are batched
+   *
+   * Each caller gets own result (null for missing IDs), cache works as without batching.
+   * @default false
+   */
+  batchGetById?: boolean|number,
+
+  /**
+   * share one pending server request between concurrent identical queries
+   * (same query after merge with `defaultQuery` and compilation for the DB),
+   * works with and without cache. Each caller gets own copy of the results.
+   * @default false
+   */
+  dedupeQueries?: boolean,
+
+  /**
+   * middleware of the service operations (query, add, update, etc.), run after global middleware of the broker
+   * @see DB_Middleware, I_DB_EntityServiceBase.use
+   */
+  middleware?: DB_Middleware[],
 }
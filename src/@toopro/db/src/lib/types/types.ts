@@ -5,6 +5,9 @@ import { DB_BrokerService } from '../broker.service.js';
 export enum DBtype {
   directus = 'directus',
   mysql = 'mysql',
+  memory = 'memory',
+  sqlite = 'sqlite',
+  postgres = 'postgres',
 }
 
 export enum DB_ServerNamesStd {
@@ -140,7 +143,25 @@ export type DB_ServerInfo_Directus<T = object> = DB_ServerInfo<
   AuthenticationClient<{ [key: string]: T }>
 >;
 
+/**
+ * "SDK object" of the in-memory adaptor:
+ * all collections of the server stored as hashes of rows by ID.
+ * Row keys are always strings, so `5` and `'5'` are the same entity.
+ */
+export interface DB_MemoryStore {
+  collections: Record<string, Map<string, Record<string, any>>>,
+  //last auto generated numeric ID by collection name
+  lastIds: Record<string, number>,
+}
+
+export type DB_ServerInfo_Memory = DB_ServerInfo<DB_MemoryStore>;
+
 export interface ServersConfigHash {
   credentials: Partial<Record<DB_ServerNamesStd | string, Partial<DB_ServerInfo>>>,
   entitiesByServer: Partial<Record<DB_ServerNamesStd | string, string[]>>,
+  /**
+   * entities to load to cache after login to the server (@see DB_BrokerService.cachePreloadOnLogin),
+   * their services must be created with enabled cache before login
+   */
+  preloadByServer?: Partial<Record<DB_ServerNamesStd | string, string[]>>,
 }
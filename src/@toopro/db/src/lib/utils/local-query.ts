@@ -0,0 +1,395 @@
+import { DB_Aggregate, DB_AggregateResult, DB_AggregateValue, DB_FieldFilterOperator, DB_Filter, I_DB_Query } from '../types/query.type.js';
+
+/**
+ * Local (in-process) evaluator of the generic `I_DB_Query` object.
+ * Used by adaptors that keep their data in memory and can't ask
+ * some DB engine to filter/sort/limit data for them.
+ *
+ * Tries to mimic Directus filter rules as close as possible:
+ *  - field names are nested objects `{author:{name:{_eq:'x'}}}`
+ *  - several operators/fields on the same level are AND-ed
+ *  - nested arrays (o2m) match if ANY of the items match
+ *  - numbers and numeric strings are compared as numbers
+ *
+ * Filter matching is tri-state: `true`, `false` or `undefined` when
+ * the filter can't be evaluated locally (geo operators, relation that is
+ * stored as plain ID instead of the object, etc.), so the caller decides
+ * what to do with such items (for example, ask the remote server).
+ *
+ * @author Kyrylo Kuzmytskyy <slykirill@gmail.com>
+ *
+ * @example
+ * const found = DB_LocalQuery.run(items, dbqb<IProduct>().equal('status','active').sort('-id').limit(10).q);
+ * const isActive = DB_LocalQuery.match(item, {status:{_eq:'active'}}); //true|false|undefined
+ */
+export class DB_LocalQuery {
+
+  /**
+   * apply full query to the array of items:
+   * filter, search, sort, offset/page, limit, fieldQ and fields projection
+   *
+   * @param items source items (will not be modified)
+   * @param query generic query object
+   * @return new array with (projected) items or
+   *    undefined if the filter can't be evaluated locally
+   */
+  static run<T extends object>(items:T[], query?:I_DB_Query<T>):T[]|undefined {
+    if(!query) return items.slice();
+
+    //FILTER + SEARCH:
+    let res:T[] = [];
+    for(const item of items) {
+      const isMatch = DB_LocalQuery.match(item, query.filter);
+      if(isMatch === undefined) return undefined;
+      if(isMatch && DB_LocalQuery.matchSearch(item, query.search)) res.push(item);
+    }
+
+    //SORT, OFFSET, LIMIT:
+    res = DB_LocalQuery.sort(res, query.sort);
+    res = DB_LocalQuery.paginate(res, query);
+
+    //FIELD QUERIES (deep) AND PROJECTION:
+    if(query.fieldQ) res = res.map(item => DB_LocalQuery.applyFieldQueries(item, query.fieldQ as Record<string, I_DB_Query<any>>));
+    if(query.fields && query.fields.length) res = res.map(item => DB_LocalQuery.project(item, query.fields as string[]));
+    return res;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // AGGREGATION
+
+  /**
+   * aggregate items by `query.aggregate` functions grouped by `query.group` fields,
+   * rows are filtered before and sorted/paginated after grouping (as SQL do).
+   * Nulls are skipped by all functions except `count('*')`, sum/avg/min/max of no values are `null`.
+   *
+   * @return aggregated rows (one row without groups, even if no items matched) or
+   *    undefined if the filter can't be evaluated locally
+   * @example
+   * DB_LocalQuery.aggregate(orders, {aggregate:{count:['*'], sum:['total']}, group:['status']});
+   * //[{status:'paid', count:{'*':2}, sum:{total:30}}, ...]
+   */
+  static aggregate<T extends object>(items:T[], query:I_DB_Query<T>):DB_AggregateResult<T>[]|undefined {
+    const found:T[] = [];
+    for(const item of items) {
+      const isMatch = DB_LocalQuery.match(item, query.filter);
+      if(isMatch === undefined) return undefined;
+      if(isMatch && DB_LocalQuery.matchSearch(item, query.search)) found.push(item);
+    }
+
+    //GROUP:
+    const group = (query.group ?? []) as string[];
+    const groups = new Map<string, T[]>();
+    if(!group.length) groups.set('', found);
+    else for(const item of found) {
+      const key = JSON.stringify(group.map(f => DB_LocalQuery.getValue(item, f) ?? null));
+      if(!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(item);
+    }
+
+    //AGGREGATE each group:
+    let res:DB_AggregateResult<T>[] = [];
+    for(const groupItems of groups.values()) {
+      const row:Record<string, any> = {};
+      for(const f of group) row[f] = DB_LocalQuery.getValue(groupItems[0], f) ?? null;
+      for(const fn of Object.keys(query.aggregate ?? {}) as (keyof DB_Aggregate)[]) {
+        row[fn] = {};
+        for(const field of query.aggregate![fn]!) row[fn][field] = DB_LocalQuery.aggregateValues(fn, groupItems, field);
+      }
+      res.push(row as DB_AggregateResult<T>);
+    }
+
+    res = DB_LocalQuery.sort(res, query.sort);
+    return DB_LocalQuery.paginate(res, query);
+  }
+
+  private static aggregateValues(fn:keyof DB_Aggregate, items:object[], field:string):DB_AggregateValue {
+    if(fn === 'count' && field === '*') return items.length;
+    let values = items.map(item => DB_LocalQuery.getValue(item, field)).filter(v => v !== null && v !== undefined);
+    if(fn.endsWith('Distinct')) values = Array.from(new Set(values.map(v => typeof v === 'object' ? JSON.stringify(v) : v)));
+    if(fn === 'count' || fn === 'countDistinct') return values.length;
+    if(!values.length) return null;
+    if(fn === 'min') return values.reduce((a, b) => DB_LocalQuery.compare(a, b) <= 0 ? a : b);
+    if(fn === 'max') return values.reduce((a, b) => DB_LocalQuery.compare(a, b) >= 0 ? a : b);
+    const sum = values.reduce((acc, v) => acc + Number(v), 0);
+    return fn.startsWith('avg') ? sum / values.length : sum;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // FILTER
+
+  /**
+   * check that the item matches the filter
+   * @param item any object
+   * @param filter generic filter object (could have `_and` / `_or` groups)
+   * @return true/false or undefined if the filter can't be evaluated locally
+   */
+  static match<T extends object>(item:T, filter?:DB_Filter<T>|Record<string, any>):boolean|undefined {
+    if(!filter || typeof filter !== 'object') return true;
+    const results:(boolean|undefined)[] = [];
+
+    for(const key of Object.keys(filter)) {
+      const cond = (filter as Record<string, any>)[key];
+      if(key === '_and' || key === '_or') {
+        if(!Array.isArray(cond)) return undefined;
+        const groupRes = cond.map(sub => DB_LocalQuery.match(item, sub));
+        results.push(key === '_and' ? DB_LocalQuery.and(groupRes) : DB_LocalQuery.or(groupRes));
+      } else if(key.startsWith('_')) {
+        return undefined; //unknown logical operator on the field level, for example, _some/_none
+      } else {
+        results.push(DB_LocalQuery.matchField((item as Record<string, any>)?.[key], cond));
+      }
+    }
+    return DB_LocalQuery.and(results);
+  }
+
+  /**
+   * match field value against the object that could contain
+   * operators (`_eq`, `_in`...) and/or nested field filters (for relations)
+   * @param value value of the field from the item
+   * @param cond condition object for this field
+   * @private
+   */
+  private static matchField(value:any, cond:Record<string, any>):boolean|undefined {
+    if(!cond || typeof cond !== 'object') return undefined;
+    const results:(boolean|undefined)[] = [];
+    const nested:Record<string, any> = {};
+    let hasNested = false;
+
+    for(const op of Object.keys(cond)) {
+      if(op === '_and' || op === '_or') { nested[op] = cond[op]; hasNested = true; }
+      else if(op.startsWith('_')) results.push(DB_LocalQuery.matchOperator(value, { [op]: cond[op] }));
+      else { nested[op] = cond[op]; hasNested = true; }
+    }
+
+    //deep fields filter (relation): value must be an object or array of objects
+    if(hasNested) {
+      if(Array.isArray(value)) {
+        if(value.some(v => typeof v !== 'object' || v === null)) results.push(undefined);
+        else results.push(DB_LocalQuery.or(value.map(v => DB_LocalQuery.match(v, nested))));
+      } else if(value === null || value === undefined) results.push(false);
+      else if(typeof value === 'object') results.push(DB_LocalQuery.match(value, nested));
+      else results.push(undefined); //we have only ID of the relation, can't check its fields
+    }
+    return DB_LocalQuery.and(results);
+  }
+
+  /**
+   * check one operator for the value
+   * @param value field value of the item
+   * @param opObj object with ONE operator, for example {_eq:5}
+   * @return true/false or undefined if the operator is not supported locally
+   */
+  static matchOperator(value:any, opObj:DB_FieldFilterOperator):boolean|undefined {
+    const op = Object.keys(opObj)[0] as keyof DB_FieldFilterOperator;
+    const arg = opObj[op] as any;
+    const str = (v:any) => (v === null || v === undefined) ? '' : String(v);
+
+    switch (op) {
+      case '_eq':   return DB_LocalQuery.eq(value, arg);
+      case '_neq':  return !DB_LocalQuery.eq(value, arg);
+      case '_lt':   return DB_LocalQuery.range(value, arg, c => c < 0);
+      case '_lte':  return DB_LocalQuery.range(value, arg, c => c <= 0);
+      case '_gt':   return DB_LocalQuery.range(value, arg, c => c > 0);
+      case '_gte':  return DB_LocalQuery.range(value, arg, c => c >= 0);
+      case '_in':   return Array.isArray(arg) ? arg.some(a => DB_LocalQuery.eq(value, a)) : undefined;
+      case '_nin':  return Array.isArray(arg) ? !arg.some(a => DB_LocalQuery.eq(value, a)) : undefined;
+      case '_null': return (value === null || value === undefined) === !!arg;
+      case '_nnull':return (value !== null && value !== undefined) === !!arg;
+
+      case '_contains':   return Array.isArray(value) ? value.some(v => DB_LocalQuery.eq(v, arg)) : str(value).includes(str(arg));
+      case '_ncontains':  return Array.isArray(value) ? !value.some(v => DB_LocalQuery.eq(v, arg)) : !str(value).includes(str(arg));
+      case '_icontains':  return str(value).toLowerCase().includes(str(arg).toLowerCase());
+
+      case '_starts_with':    return str(value).startsWith(str(arg));
+      case '_nstarts_with':   return !str(value).startsWith(str(arg));
+      case '_istarts_with':   return str(value).toLowerCase().startsWith(str(arg).toLowerCase());
+      case '_nistarts_with':  return !str(value).toLowerCase().startsWith(str(arg).toLowerCase());
+      case '_ends_with':      return str(value).endsWith(str(arg));
+      case '_nends_with':     return !str(value).endsWith(str(arg));
+      case '_iends_with':     return str(value).toLowerCase().endsWith(str(arg).toLowerCase());
+      case '_niends_with':    return !str(value).toLowerCase().endsWith(str(arg).toLowerCase());
+
+      case '_between':  return DB_LocalQuery.between(value, arg);
+      case '_nbetween': { const r = DB_LocalQuery.between(value, arg); return r === undefined ? r : !r; }
+
+      case '_empty':  return DB_LocalQuery.isEmpty(value) === (arg !== false);
+      case '_nempty': return !DB_LocalQuery.isEmpty(value) === (arg !== false);
+
+      //geo operators need geometry engine, so can't evaluate them here
+      default: return undefined;
+    }
+  }
+
+  /**
+   * simple full-text search in all top level string and number fields
+   * (case-insensitive, as directus do)
+   * @private
+   */
+  private static matchSearch(item:object, search?:string):boolean {
+    if(!search) return true;
+    const needle = search.toLowerCase();
+    return Object.values(item).some(v =>
+      (typeof v === 'string' || typeof v === 'number') && String(v).toLowerCase().includes(needle)
+    );
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // SORT, PAGINATION, PROJECTION
+
+  /**
+   * sort items by array of sort strings (same syntax as in I_DB_Query.sort)
+   * @param items will not be modified, new array returned
+   * @param sort for example `['-date_created', 'name', '+id']` dotted paths allowed
+   */
+  static sort<T extends object>(items:T[], sort?:string[]):T[] {
+    const res = items.slice();
+    if(!sort || !sort.length) return res;
+    const rules = sort.filter(s => !!s).map(s => ({
+      path: s.replace(/^[-+]/, ''),
+      dir: s.startsWith('-') ? -1 : 1,
+    }));
+    return res.sort((a, b) => {
+      for(const rule of rules) {
+        const cmp = DB_LocalQuery.compare(DB_LocalQuery.getValue(a, rule.path), DB_LocalQuery.getValue(b, rule.path));
+        if(cmp !== 0) return cmp * rule.dir;
+      }
+      return 0;
+    });
+  }
+
+  /**
+   * apply offset, page and limit of the query
+   * limit `-1` means no limit (as in directus)
+   */
+  static paginate<T>(items:T[], query:Pick<I_DB_Query, 'limit'|'offset'|'page'>):T[] {
+    const limit = (query.limit === undefined || query.limit < 0) ? undefined : query.limit;
+    let offset = query.offset ?? 0;
+    if(query.page && query.page > 1 && limit !== undefined) offset += (query.page - 1) * limit;
+    return items.slice(offset, limit === undefined ? undefined : offset + limit);
+  }
+
+  /**
+   * return a copy of the item that contains only given fields.
+   * Supports `*` wildcard and dotted paths, for example `['*', 'author.name', 'tags.*']`
+   * @param item source item (will not be modified)
+   * @param fields list of fields, empty list or undefined means all fields
+   */
+  static project<T extends object>(item:T, fields?:string[]):T {
+    if(!fields || !fields.length || item === null || typeof item !== 'object') return item;
+    const src = item as Record<string, any>;
+    const ret:Record<string, any> = {};
+    const nestedFields:Record<string, string[]> = {};
+
+    for(const f of fields) {
+      const dotPos = f.indexOf('.');
+      if(f === '*') { for(const key of Object.keys(src)) if(!(key in ret)) ret[key] = src[key]; continue; }
+      if(dotPos < 0) { if(f in src) ret[f] = src[f]; continue; }
+      const head = f.substring(0, dotPos);
+      (nestedFields[head] ??= []).push(f.substring(dotPos + 1));
+    }
+
+    //nested fields: project each object (or each item of array)
+    for(const head of Object.keys(nestedFields)) {
+      if(!(head in src)) continue;
+      const val = src[head];
+      if(Array.isArray(val)) ret[head] = val.map(v => DB_LocalQuery.project(v, nestedFields[head]));
+      else if(val && typeof val === 'object') ret[head] = DB_LocalQuery.project(val, nestedFields[head]);
+      else ret[head] = val; //relation is not an object (just ID) - keep as is
+    }
+    return ret as T;
+  }
+
+  /**
+   * apply sub-queries (`fieldQ` / deep) to the nested array fields of the item
+   * @private
+   */
+  private static applyFieldQueries<T extends object>(item:T, fieldQ:Record<string, I_DB_Query<any>>):T {
+    const ret = {...item} as Record<string, any>;
+    for(const field of Object.keys(fieldQ)) {
+      const val = ret[field];
+      if(!Array.isArray(val) || typeof fieldQ[field] !== 'object') continue;
+      const objects = val.filter(v => v && typeof v === 'object');
+      ret[field] = DB_LocalQuery.run(objects, fieldQ[field]) ?? val;
+    }
+    return ret as T;
+  }
+
+  //////////////////////////////////////////////////////////////////////////////
+  // HELPERS
+
+  /**
+   * get value from the object by dotted path
+   * @example getValue({author:{name:'me'}}, 'author.name'); //'me'
+   */
+  static getValue(item:any, path:string):any {
+    if(!path) return item;
+    return path.split('.').reduce((obj, key) => (obj === null || obj === undefined) ? undefined : obj[key], item);
+  }
+
+  /** loose equality: number 5 equals string '5', true equals 'true' or 1 */
+  private static eq(a:any, b:any):boolean {
+    if(a === b) return true;
+    if(a === null || a === undefined || b === null || b === undefined) return false;
+    if(typeof a === 'object' || typeof b === 'object') return false;
+    if(typeof a === 'boolean' || typeof b === 'boolean') return DB_LocalQuery.toBool(a) === DB_LocalQuery.toBool(b);
+    return String(a) === String(b);
+  }
+
+  private static toBool(v:any):boolean {
+    if(typeof v === 'string') return v === 'true' || v === '1';
+    return !!v;
+  }
+
+  /**
+   * compare two values for sorting or range filters.
+   * null/undefined are the smallest values,
+   * numbers and numeric strings compared as numbers, others as strings
+   * @return negative if a<b, positive if a>b, 0 if equal
+   */
+  static compare(a:any, b:any):number {
+    const aNull = a === null || a === undefined, bNull = b === null || b === undefined;
+    if(aNull || bNull) return aNull === bNull ? 0 : (aNull ? -1 : 1);
+    if(a instanceof Date) a = a.getTime();
+    if(b instanceof Date) b = b.getTime();
+    const aNum = typeof a === 'number' ? a : (typeof a === 'string' && a.trim() !== '' ? Number(a) : NaN);
+    const bNum = typeof b === 'number' ? b : (typeof b === 'string' && b.trim() !== '' ? Number(b) : NaN);
+    if(!isNaN(aNum) && !isNaN(bNum)) return aNum - bNum;
+    const aStr = String(a), bStr = String(b);
+    return aStr < bStr ? -1 : (aStr > bStr ? 1 : 0);
+  }
+
+  /**
+   * range comparison like in SQL: null/undefined value (or argument) matches nothing,
+   * though `compare()` sorts them as the smallest values
+   */
+  private static range(value:any, arg:any, check:(compared:number) => boolean):boolean {
+    if(value === null || value === undefined || arg === null || arg === undefined) return false;
+    return check(DB_LocalQuery.compare(value, arg));
+  }
+
+  private static between(value:any, range:any):boolean|undefined {
+    if(!Array.isArray(range) || range.length !== 2) return undefined;
+    if(value === null || value === undefined) return false;
+    return DB_LocalQuery.compare(value, range[0]) >= 0 && DB_LocalQuery.compare(value, range[1]) <= 0;
+  }
+
+  private static isEmpty(value:any):boolean {
+    if(value === null || value === undefined || value === '') return true;
+    if(Array.isArray(value)) return value.length === 0;
+    return false;
+  }
+
+  /** tri-state AND: false wins, then undefined, then true */
+  private static and(results:(boolean|undefined)[]):boolean|undefined {
+    if(results.includes(false)) return false;
+    if(results.includes(undefined)) return undefined;
+    return true;
+  }
+
+  /** tri-state OR: true wins, then undefined, then false */
+  private static or(results:(boolean|undefined)[]):boolean|undefined {
+    if(results.includes(true)) return true;
+    if(results.includes(undefined)) return undefined;
+    return false;
+  }
+}
@@ -0,0 +1,2 @@
+//node only helpers for tests of apps that use @toopro/db (import from '@toopro/db/testing')
+export * from './lib/testing/directus-stand-in.js';
@@ -27,8 +27,8 @@
  *  data: {key: 'value'}
  * };
  *
- * //usage in post load modifier of the entity:
- * override postLoadModifier = (entity: IProduct): IProduct => {
+ * //usage in middleware of the entity service:
+ * const castProduct = (entity: IProduct): IProduct => {
  *     //cast string numbers to numbers
  *     //(in directus 2024 v11 decimal fields sent as string, we use them for prices)
  *     TpsCaster.cast<IProduct>(entity, {
@@ -44,6 +44,10 @@
  *     });
  *     return entity;
  * }
+ * productService.use(async (ctx, next) => {
+ *   const res = await next();
+ *   return ctx.operation === 'query' ? (res as IProduct[]).map(castProduct) : res;
+ * });
  */
 export class TpsCaster {
 